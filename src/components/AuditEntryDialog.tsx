@@ -0,0 +1,115 @@
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  resource: string;
+  resource_id: string | null;
+  client: Json;
+  details: Json;
+  changes: Json | null;
+}
+
+interface AuditChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface AuditEntryDialogProps {
+  entry: AuditEntry | null;
+  onClose: () => void;
+}
+
+const formatJson = (value: unknown) => (value === undefined ? "—" : JSON.stringify(value));
+
+/** One audit entry in full: the caller, what was recorded and, for configuration changes, the diff */
+const AuditEntryDialog = ({ entry, onClose }: AuditEntryDialogProps) => {
+  const changes = (entry?.changes ?? []) as unknown as AuditChange[];
+  const client = (entry?.client ?? {}) as Record<string, string | null>;
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={(open) => !open && onClose()}>
+      {entry && (
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{entry.action}</DialogTitle>
+            <DialogDescription>
+              {format(new Date(entry.occurred_at), "dd MMM yyyy HH:mm:ss")} by {entry.actor_email ?? entry.actor_id ?? "unknown"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[65vh] pr-4">
+            <div className="space-y-6">
+              <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                <div>
+                  <dt className="text-xs text-muted-foreground">Resource</dt>
+                  <dd className="font-mono">
+                    {entry.resource}
+                    {entry.resource_id && ` / ${entry.resource_id}`}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">IP address</dt>
+                  <dd className="font-mono">{client.ip ?? "—"}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Client</dt>
+                  <dd className="font-mono">{client.client_info ?? "—"}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">User agent</dt>
+                  <dd className="text-xs break-all">{client.user_agent ?? "—"}</dd>
+                </div>
+              </dl>
+
+              {changes.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold mb-2">Changes</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.map((change) => (
+                        <TableRow key={change.path}>
+                          <TableCell className="font-mono text-xs">{change.path || "(whole value)"}</TableCell>
+                          <TableCell className="font-mono text-xs text-destructive break-all">
+                            {formatJson(change.before)}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs text-primary break-all">
+                            {formatJson(change.after)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Details</h4>
+                <pre className="text-xs bg-muted/50 rounded-md p-4 overflow-x-auto">
+                  {JSON.stringify(entry.details, null, 2)}
+                </pre>
+              </div>
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+};
+
+export default AuditEntryDialog;
@@ -0,0 +1,84 @@
+import * as React from "react";
+import type { Session } from "@supabase/supabase-js";
+import { AuthContext, type AuthContextValue } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { can, type AppRole } from "@shared/roles.ts";
+
+async function fetchRoles(userId: string): Promise<AppRole[]> {
+  const { data, error } = await supabase.from("user_roles").select("role").eq("user_id", userId);
+  if (error) {
+    console.error("Failed to load roles:", error);
+    throw new Error(error.message);
+  }
+  return data.map((row) => row.role);
+}
+
+/**
+ * Tracks the signed-in session and the user's roles. Roles are loaded when
+ * the user changes, not on every token refresh, and `loading` stays true
+ * until they have arrived, so pages are never shown with roles still missing.
+ */
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = React.useState<Session | null>(null);
+  const [roles, setRoles] = React.useState<AppRole[]>([]);
+  const [rolesError, setRolesError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  // Whose roles are loaded or loading; undefined before the first session is known
+  const rolesFor = React.useRef<string | null | undefined>(undefined);
+
+  const loadRoles = React.useCallback(async (userId: string | null) => {
+    rolesFor.current = userId;
+    setLoading(true);
+
+    let next: AppRole[] = [];
+    let error: string | null = null;
+    try {
+      next = userId ? await fetchRoles(userId) : [];
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Unknown error";
+    }
+
+    // A sign-in or sign-out since has started its own load
+    if (rolesFor.current !== userId) return;
+    setRoles(next);
+    setRolesError(error);
+    setLoading(false);
+  }, []);
+
+  React.useEffect(() => {
+    const applySession = (next: Session | null) => {
+      setSession(next);
+      const userId = next?.user.id ?? null;
+      if (userId !== rolesFor.current) loadRoles(userId);
+    };
+
+    // Subscribe first so a sign-in during the initial load is not missed
+    const { data: subscription } = supabase.auth.onAuthStateChange((_event, next) => {
+      // Defer Supabase calls out of the auth callback to avoid deadlocking the client
+      setTimeout(() => applySession(next), 0);
+    });
+    supabase.auth.getSession().then(({ data }) => applySession(data.session));
+
+    return () => subscription.subscription.unsubscribe();
+  }, [loadRoles]);
+
+  const value = React.useMemo<AuthContextValue>(
+    () => ({
+      session,
+      user: session?.user ?? null,
+      roles,
+      loading,
+      rolesError,
+      retryRoles: () => loadRoles(session?.user.id ?? null),
+      can: (permission) => can(roles, permission),
+      signOut: async () => {
+        await supabase.auth.signOut();
+      },
+    }),
+    [session, roles, loading, rolesError, loadRoles],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { EyeOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BLIND_SCORING_KEY, useBlindScoring } from "@/hooks/use-blind-scoring";
+import { supabase } from "@/integrations/supabase/client";
+import { CONTRACT_TYPES, PROTECTED_ATTRIBUTES, type FieldIssue, type ProtectedAttribute } from "@shared/applicantSchema.ts";
+import type { BlindScoringConfig } from "@shared/blindScoring.ts";
+
+const ATTRIBUTE_LABELS: Record<ProtectedAttribute, string> = { gender: "Gender", age: "Age" };
+
+/** Admin card for the products that must be scored without gender or age */
+const BlindScoringSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useBlindScoring();
+  const [draft, setDraft] = useState<BlindScoringConfig | null>(null);
+
+  useEffect(() => {
+    if (data) setDraft(data);
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: async (config: BlindScoringConfig) => {
+      const { error } = await supabase.functions.invoke("blind-scoring", { method: "PUT", body: config });
+      if (error instanceof FunctionsHttpError && error.context.status === 422) {
+        const body = await error.context.json();
+        throw new Error((body.fields ?? []).map((issue: FieldIssue) => `${issue.field}: ${issue.message}`).join("; "));
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: BLIND_SCORING_KEY });
+      toast({ title: "Blind Scoring Saved", description: "Scoring instances pick up the change within a minute." });
+    },
+    onError: (error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (type: (typeof CONTRACT_TYPES)[number], attribute: ProtectedAttribute, suppressed: boolean) => {
+    if (!draft) return;
+    const current = draft.products[type] ?? [];
+    const next = PROTECTED_ATTRIBUTES.filter((a) => (a === attribute ? suppressed : current.includes(a)));
+    const { [type]: _removed, ...others } = draft.products;
+    setDraft({ products: next.length > 0 ? { ...others, [type]: next } : others });
+  };
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <EyeOff className="w-5 h-5 text-primary" />
+          Blind Scoring
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <p className="text-destructive">
+            Failed to load the blind-scoring configuration: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading || !draft ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  {PROTECTED_ATTRIBUTES.map((attribute) => (
+                    <TableHead key={attribute}>Score without {ATTRIBUTE_LABELS[attribute].toLowerCase()}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {CONTRACT_TYPES.map((type) => (
+                  <TableRow key={type}>
+                    <TableCell>{type}</TableCell>
+                    {PROTECTED_ATTRIBUTES.map((attribute) => (
+                      <TableCell key={attribute}>
+                        <Switch
+                          checked={draft.products[type]?.includes(attribute) ?? false}
+                          onCheckedChange={(suppressed) => toggle(type, attribute, suppressed)}
+                          aria-label={`Score ${type} without ${attribute}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <p className="text-sm text-muted-foreground">
+              Suppressed attributes are neither scored nor stored; the model sees the neutral value it uses for an
+              applicant it knows nothing about. Users can also suppress them for a single request.
+            </p>
+
+            <Button variant="hero" onClick={() => save.mutate(draft)} disabled={save.isPending}>
+              {save.isPending ? "Saving..." : "Save Blind Scoring"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlindScoringSettings;
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BUCKET_SCHEMES_KEY, useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import type { FieldIssue } from "@shared/applicantSchema.ts";
+import { bucketRange, MAX_BUCKETS, validateBucketScheme, type BucketScheme } from "@shared/bucketScheme.ts";
+
+interface DraftBucket {
+  name: string;
+  label: string;
+  /** Upper bound in percent, as typed */
+  maxPercent: string;
+  color: string;
+  adverse: boolean;
+}
+
+const PALETTE = ["#16a34a", "#65a30d", "#3b82f6", "#f59e0b", "#f97316", "#ef4444", "#b91c1c", "#7c3aed", "#0891b2", "#64748b"];
+
+const emptyBucket = (i: number): DraftBucket => ({
+  name: String.fromCharCode(65 + i),
+  label: "",
+  maxPercent: "",
+  color: PALETTE[i % PALETTE.length],
+  adverse: false,
+});
+
+const formatPercent = (value: number) => `${Number((value * 100).toFixed(1))}%`;
+
+const describeBuckets = (scheme: BucketScheme) =>
+  scheme.buckets
+    .map((b) => {
+      const [lower, upper] = bucketRange(scheme, b.name);
+      return `${b.name} ${upper === null ? `>${formatPercent(lower)}` : `≤${formatPercent(upper)}`}`;
+    })
+    .join(" · ");
+
+/** Admin card for defining risk-bucket schemes and choosing the active one */
+const BucketSchemeSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useBucketSchemes();
+  const [name, setName] = useState("");
+  const [buckets, setBuckets] = useState<DraftBucket[]>(() => [0, 1, 2, 3, 4].map(emptyBucket));
+  const [issues, setIssues] = useState<FieldIssue[]>([]);
+
+  const reportError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const activate = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.functions.invoke("bucket-schemes", { method: "PUT", body: { id } });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: BUCKET_SCHEMES_KEY });
+      toast({ title: "Scheme Activated", description: "New scores use the selected buckets." });
+    },
+    onError: reportError("Activation Failed"),
+  });
+
+  const create = useMutation({
+    mutationFn: async (scheme: unknown) => {
+      const { error } = await supabase.functions.invoke("bucket-schemes", { method: "POST", body: scheme });
+      if (error instanceof FunctionsHttpError && error.context.status === 422) {
+        const body = await error.context.json();
+        setIssues(body.fields ?? []);
+        throw new Error("Please correct the highlighted fields.");
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: BUCKET_SCHEMES_KEY });
+      setName("");
+      setBuckets([0, 1, 2, 3, 4].map(emptyBucket));
+      toast({ title: "Scheme Saved", description: "Activate it to use it for new scores." });
+    },
+    onError: reportError("Save Failed"),
+  });
+
+  const updateBucket = (index: number, patch: Partial<DraftBucket>) => {
+    setBuckets((prev) => prev.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+    setIssues([]);
+  };
+
+  const handleSave = () => {
+    const scheme = {
+      name,
+      buckets: buckets.map((b, i) => ({
+        name: b.name,
+        label: b.label,
+        // The last bucket is open-ended
+        max_probability: i === buckets.length - 1 ? null : b.maxPercent === "" ? NaN : Number(b.maxPercent) / 100,
+        color: b.color,
+        adverse: b.adverse,
+      })),
+    };
+
+    const validation = validateBucketScheme(scheme);
+    if (validation.success === false) {
+      setIssues(validation.issues);
+      return;
+    }
+    create.mutate(validation.data);
+  };
+
+  const issueFor = (field: string) => issues.find((issue) => issue.field === field)?.message;
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          Risk Buckets
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {error ? (
+          <p className="text-destructive">
+            Failed to load bucket schemes: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scheme</TableHead>
+                <TableHead>Buckets</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.schemes.map((scheme) => (
+                <TableRow key={scheme.id}>
+                  <TableCell className="font-medium">{scheme.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{describeBuckets(scheme)}</TableCell>
+                  <TableCell className="text-right">
+                    {scheme.id === data.active.id ? (
+                      <Badge>Active</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={activate.isPending}
+                        onClick={() => activate.mutate(scheme.id)}
+                      >
+                        Activate
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 border-t border-border/50 pt-6">
+          <h4 className="font-semibold">New Scheme</h4>
+          <div className="space-y-2 max-w-sm">
+            <Label htmlFor="schemeName">Name</Label>
+            <Input
+              id="schemeName"
+              placeholder="e.g. Five grades (A–E)"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setIssues([]);
+              }}
+            />
+            {issueFor("name") && <p className="text-sm text-destructive">{issueFor("name")}</p>}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Grade</TableHead>
+                <TableHead>Label</TableHead>
+                <TableHead>Up to (%)</TableHead>
+                <TableHead>Colour</TableHead>
+                <TableHead>Reason codes</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {buckets.map((bucket, i) => {
+                const bucketIssues = ["name", "label", "max_probability", "color"]
+                  .map((field) => issueFor(`buckets.${i}.${field}`))
+                  .filter(Boolean);
+                return (
+                  <TableRow key={i}>
+                    <TableCell>
+                      <Input
+                        className="w-16"
+                        value={bucket.name}
+                        onChange={(e) => updateBucket(i, { name: e.target.value })}
+                        aria-label={`Bucket ${i + 1} grade`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={bucket.label}
+                        placeholder="e.g. Low Risk"
+                        onChange={(e) => updateBucket(i, { label: e.target.value })}
+                        aria-label={`Bucket ${i + 1} label`}
+                      />
+                      {bucketIssues.length > 0 && (
+                        <p className="text-sm text-destructive mt-1">{bucketIssues.join("; ")}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {i === buckets.length - 1 ? (
+                        <span className="text-muted-foreground">and above</span>
+                      ) : (
+                        <Input
+                          className="w-24"
+                          type="number"
+                          step="0.1"
+                          value={bucket.maxPercent}
+                          onChange={(e) => updateBucket(i, { maxPercent: e.target.value })}
+                          aria-label={`Bucket ${i + 1} upper bound`}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="w-14 p-1"
+                        type="color"
+                        value={bucket.color}
+                        onChange={(e) => updateBucket(i, { color: e.target.value })}
+                        aria-label={`Bucket ${i + 1} colour`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={bucket.adverse}
+                        onCheckedChange={(adverse) => updateBucket(i, { adverse })}
+                        aria-label={`Bucket ${i + 1} gets reason codes`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={buckets.length <= 2}
+                        onClick={() => setBuckets((prev) => prev.filter((_, j) => j !== i))}
+                        aria-label={`Remove bucket ${i + 1}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {issueFor("buckets") && <p className="text-sm text-destructive">{issueFor("buckets")}</p>}
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              disabled={buckets.length >= MAX_BUCKETS}
+              onClick={() => setBuckets((prev) => [...prev, emptyBucket(prev.length)])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Bucket
+            </Button>
+            <Button variant="hero" onClick={handleSave} disabled={create.isPending}>
+              {create.isPending ? "Saving..." : "Save Scheme"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BucketSchemeSettings;
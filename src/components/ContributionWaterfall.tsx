@@ -0,0 +1,129 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import type { Explanation } from "@shared/explanation.ts";
+
+/** Scores carry their explanation in full; one read back from storage may have null values */
+type ChartedExplanation = Explanation<number | string | null>;
+
+interface WaterfallStep {
+  name: string;
+  detail: string;
+  range: [number, number];
+  impact: number;
+  kind: "base" | "up" | "down" | "calibration" | "total";
+}
+
+const MAX_STEPS = 8;
+
+// Friendly names for the heuristic engine's rules; ONNX contributions use column names
+const FEATURE_LABELS: Record<string, string> = {
+  creditToIncome: "Credit / income",
+  debtToIncome: "Debt / income",
+  age: "Age",
+  employment: "Employment years",
+  contractType: "Contract type",
+  education: "Education",
+};
+
+const chartConfig = {
+  up: { label: "Increases risk", color: "hsl(var(--risk-d))" },
+  down: { label: "Reduces risk", color: "hsl(var(--risk-a))" },
+  base: { label: "Baseline", color: "hsl(var(--muted-foreground))" },
+  calibration: { label: "Calibration", color: "hsl(var(--muted-foreground))" },
+  total: { label: "Score", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatPoints = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)} pts`;
+
+const formatValue = (value: number | string | null) =>
+  typeof value === "number" ? Number(value.toFixed(3)).toLocaleString() : value ?? "—";
+
+/**
+ * Steps from the baseline to the calibrated probability. Contributions are in
+ * the model's raw output, so for the ONNX engine a labelled calibration step
+ * bridges the raw output to the score the applicant is graded on.
+ */
+function buildSteps(explanation: ChartedExplanation, probability: number): WaterfallStep[] {
+  const { base_value, output_value, contributions } = explanation;
+  const steps: WaterfallStep[] = [
+    { name: "Baseline", detail: "", range: [0, base_value], impact: base_value, kind: "base" },
+  ];
+
+  let running = base_value;
+  const push = (name: string, detail: string, impact: number) => {
+    steps.push({ name, detail, range: [running, running + impact], impact, kind: impact >= 0 ? "up" : "down" });
+    running += impact;
+  };
+
+  contributions.slice(0, MAX_STEPS).forEach((c) => {
+    push(FEATURE_LABELS[c.feature] ?? c.feature, formatValue(c.value), c.impact);
+  });
+
+  const rest = contributions.slice(MAX_STEPS);
+  if (rest.length > 0) {
+    push(`${rest.length} other features`, "", rest.reduce((sum, c) => sum + c.impact, 0));
+  }
+
+  // Interactions (tree model) or clamping (heuristic) not captured by single contributions
+  const remainder = output_value - running;
+  if (Math.abs(remainder) > 1e-4) {
+    push("Interactions", "", remainder);
+  }
+
+  const calibration = probability - output_value;
+  if (Math.abs(calibration) > 1e-4) {
+    steps.push({
+      name: "Calibration",
+      detail: "",
+      range: [output_value, probability],
+      impact: calibration,
+      kind: "calibration",
+    });
+  }
+
+  steps.push({ name: "Score", detail: "", range: [0, probability], impact: probability, kind: "total" });
+  return steps;
+}
+
+/**
+ * `probability` is the calibrated probability of default the result reports;
+ * the final bar always matches it.
+ */
+const ContributionWaterfall = ({ explanation, probability }: { explanation: ChartedExplanation; probability: number }) => {
+  const steps = buildSteps(explanation, probability);
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full" style={{ height: steps.length * 36 + 40 }}>
+      <BarChart data={steps} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
+        <YAxis type="category" dataKey="name" width={130} tickLine={false} />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+            const step = payload[0].payload as WaterfallStep;
+            return (
+              <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                <div className="font-medium">{step.name}</div>
+                {step.detail && <div className="text-muted-foreground">Value: {step.detail}</div>}
+                <div className="font-mono">
+                  {step.kind === "up" || step.kind === "down" || step.kind === "calibration"
+                    ? formatPoints(step.impact)
+                    : `${(step.impact * 100).toFixed(2)}%`}
+                </div>
+              </div>
+            );
+          }}
+        />
+        <Bar dataKey="range" radius={3}>
+          {steps.map((step, index) => (
+            <Cell key={index} fill={`var(--color-${step.kind})`} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default ContributionWaterfall;
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Archive } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { FieldIssue } from "@shared/applicantSchema.ts";
+import { MAX_RETENTION_DAYS, MIN_RETENTION_DAYS, validateRetention, type RetentionConfig } from "@shared/retention.ts";
+
+interface RetentionStatus extends RetentionConfig {
+  due: number;
+  purged: number;
+}
+
+const RETENTION_KEY = ["data-retention"];
+
+/** Admin card for the applicant-data retention period and on-demand purging */
+const DataRetentionSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState("");
+  const [issues, setIssues] = useState<FieldIssue[]>([]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: RETENTION_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<RetentionStatus>("data-retention", { method: "GET" });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  useEffect(() => {
+    if (data) setDays(String(data.retention_days));
+  }, [data]);
+
+  const reportError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const save = useMutation({
+    mutationFn: async (config: RetentionConfig) => {
+      const { error } = await supabase.functions.invoke("data-retention", { method: "PUT", body: config });
+      if (error instanceof FunctionsHttpError && error.context.status === 422) {
+        const body = await error.context.json();
+        setIssues(body.fields ?? []);
+        throw new Error("Please correct the highlighted fields.");
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: RETENTION_KEY });
+      toast({ title: "Retention Saved", description: "The next purge applies the new period." });
+    },
+    onError: reportError("Save Failed"),
+  });
+
+  const purge = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke<RetentionStatus & { purged_now: number }>(
+        "data-retention",
+        { method: "POST", body: {} },
+      );
+      if (error) throw error;
+      return data!.purged_now;
+    },
+    onSuccess: (purged) => {
+      queryClient.invalidateQueries({ queryKey: RETENTION_KEY });
+      toast({ title: "Purge Complete", description: `Applicant data removed from ${purged} predictions.` });
+    },
+    onError: reportError("Purge Failed"),
+  });
+
+  const handleSave = () => {
+    const validation = validateRetention({ retention_days: days.trim() === "" ? NaN : Number(days) });
+    if (validation.success === false) {
+      setIssues(validation.issues);
+      return;
+    }
+    save.mutate(validation.data);
+  };
+
+  const issueFor = (field: string) => issues.find((issue) => issue.field === field)?.message;
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="w-5 h-5 text-primary" />
+          Data Retention
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <p className="text-destructive">
+            Failed to load the retention settings: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading || !data ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="retentionDays">Retention period (days)</Label>
+                <Input
+                  id="retentionDays"
+                  type="number"
+                  className="w-40"
+                  min={MIN_RETENTION_DAYS}
+                  max={MAX_RETENTION_DAYS}
+                  value={days}
+                  onChange={(e) => {
+                    setDays(e.target.value);
+                    setIssues([]);
+                  }}
+                />
+                {issueFor("retention_days") && <p className="text-sm text-destructive">{issueFor("retention_days")}</p>}
+              </div>
+              <Button variant="hero" onClick={handleSave} disabled={save.isPending}>
+                {save.isPending ? "Saving..." : "Save Retention"}
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6 border-t border-border/50 pt-6">
+              <div className="text-sm">
+                <div>
+                  <span className="font-semibold">{data.due.toLocaleString()}</span> predictions past the retention
+                  period
+                </div>
+                <div className="text-muted-foreground">{data.purged.toLocaleString()} already purged</div>
+              </div>
+              <Button variant="outline" onClick={() => purge.mutate()} disabled={purge.isPending || data.due === 0}>
+                {purge.isPending ? "Purging..." : "Purge Now"}
+              </Button>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Purging clears a prediction's applicant data and explanation; its score, bucket and decision are kept.
+              A purge runs nightly; purging now only brings it forward. Sensitive fields are encrypted at rest until
+              then.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DataRetentionSettings;
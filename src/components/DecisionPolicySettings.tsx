@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { FieldIssue } from "@shared/applicantSchema.ts";
+import { validateDecisionPolicy, type StoredPolicy } from "@shared/decisionPolicy.ts";
+
+interface PoliciesResponse {
+  active: StoredPolicy;
+  policies: StoredPolicy[];
+}
+
+const POLICIES_KEY = ["decision-policies"];
+
+const summarize = ({ policy }: StoredPolicy) =>
+  `${policy.knockouts.length} knock-outs · ${policy.refer_rules.length} refer rules · ` +
+  Object.entries(policy.bucket_decisions)
+    .map(([bucket, decision]) => `${bucket}→${decision}`)
+    .join(" ");
+
+/** Admin card listing decision policy versions and saving new ones from JSON */
+const DecisionPolicySettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [json, setJson] = useState("");
+  const [note, setNote] = useState("");
+  const [issues, setIssues] = useState<FieldIssue[]>([]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: POLICIES_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<PoliciesResponse>("decision-policies", {
+        method: "GET",
+      });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  // Start each new version from the active one
+  useEffect(() => {
+    if (data) setJson(JSON.stringify(data.active.policy, null, 2));
+  }, [data]);
+
+  const reportError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const activate = useMutation({
+    mutationFn: async (version: number) => {
+      const { error } = await supabase.functions.invoke("decision-policies", { method: "PUT", body: { version } });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: POLICIES_KEY });
+      toast({ title: "Policy Activated", description: "Scoring instances pick up the change within a minute." });
+    },
+    onError: reportError("Activation Failed"),
+  });
+
+  const create = useMutation({
+    mutationFn: async (body: { policy: unknown; note: string }) => {
+      const { error } = await supabase.functions.invoke("decision-policies", { method: "POST", body });
+      if (error instanceof FunctionsHttpError && error.context.status === 422) {
+        const body = await error.context.json();
+        setIssues(body.fields ?? []);
+        throw new Error("Please correct the listed problems.");
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: POLICIES_KEY });
+      setNote("");
+      toast({ title: "Policy Saved", description: "Activate the new version to use it for new scores." });
+    },
+    onError: reportError("Save Failed"),
+  });
+
+  const handleSave = () => {
+    let policy: unknown;
+    try {
+      policy = JSON.parse(json);
+    } catch (e) {
+      setIssues([{ field: "policy", message: e instanceof Error ? e.message : "Invalid JSON" }]);
+      return;
+    }
+
+    const validation = validateDecisionPolicy(policy);
+    const problems = validation.success === false ? validation.issues : [];
+    if (note.trim() === "") problems.push({ field: "note", message: "Describe the change" });
+    if (problems.length > 0) {
+      setIssues(problems);
+      return;
+    }
+    create.mutate({ policy, note });
+  };
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          Decision Policy
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {error ? (
+          <p className="text-destructive">
+            Failed to load decision policies: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading || !data ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>Rules</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.policies.map((policy) => (
+                <TableRow key={policy.version}>
+                  <TableCell className="font-mono">v{policy.version}</TableCell>
+                  <TableCell>{policy.note}</TableCell>
+                  <TableCell className="font-mono text-xs">{summarize(policy)}</TableCell>
+                  <TableCell className="text-right">
+                    {policy.version === data.active.version ? (
+                      <Badge>Active</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={activate.isPending}
+                        onClick={() => activate.mutate(policy.version)}
+                      >
+                        Activate
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 border-t border-border/50 pt-6">
+          <h4 className="font-semibold">New Version</h4>
+          <div className="space-y-2">
+            <Label htmlFor="policyJson">Policy (JSON)</Label>
+            <Textarea
+              id="policyJson"
+              className="font-mono text-xs min-h-[320px]"
+              value={json}
+              onChange={(e) => {
+                setJson(e.target.value);
+                setIssues([]);
+              }}
+            />
+          </div>
+          <div className="space-y-2 max-w-xl">
+            <Label htmlFor="policyNote">Change note</Label>
+            <Input
+              id="policyNote"
+              placeholder="e.g. Tighten the debt-to-income knock-out to 55%"
+              value={note}
+              onChange={(e) => {
+                setNote(e.target.value);
+                setIssues([]);
+              }}
+            />
+          </div>
+          {issues.length > 0 && (
+            <ul className="text-sm text-destructive space-y-1">
+              {issues.map((issue, i) => (
+                <li key={i}>
+                  <span className="font-mono">{issue.field}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-sm text-muted-foreground">
+            Knock-outs decline outright. Otherwise the bucket's decision applies, and an approval is referred when any
+            refer rule fires. Conditions compare a field (age, employment_years, annual_income, credit_amount,
+            annuity, debt_to_income, credit_to_income, probability) with a number,{" "}
+            <span className="font-mono">{`{ "field", "offset" }`}</span> or{" "}
+            <span className="font-mono">{`{ "cutoff", "offset" }`}</span>, where the cutoff is a bucket's upper bound in
+            the scheme that graded the applicant.
+          </p>
+          <Button variant="hero" onClick={handleSave} disabled={create.isPending}>
+            {create.isPending ? "Saving..." : "Save as New Version"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DecisionPolicySettings;
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SlidersHorizontal } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { FieldIssue } from "@shared/applicantSchema.ts";
+import { validateFairnessThresholds, type FairnessThresholds } from "@shared/fairness.ts";
+
+const FAIRNESS_THRESHOLDS_KEY = ["fairness-thresholds"];
+
+const FIELDS: { field: keyof FairnessThresholds; label: string; step: string; hint: string }[] = [
+  {
+    field: "min_disparate_impact",
+    label: "Minimum disparate impact",
+    step: "0.01",
+    hint: "0.8 is the four-fifths rule",
+  },
+  {
+    field: "max_mean_pd_gap",
+    label: "Maximum mean PD gap",
+    step: "0.01",
+    hint: "As a probability, e.g. 0.05 for 5 points",
+  },
+  {
+    field: "min_group_size",
+    label: "Minimum group size",
+    step: "1",
+    hint: "Smaller groups are shown but not alerted on",
+  },
+];
+
+type Draft = Record<keyof FairnessThresholds, string>;
+
+/** Admin card for the alert thresholds of the fairness report */
+const FairnessThresholdSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [issues, setIssues] = useState<FieldIssue[]>([]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: FAIRNESS_THRESHOLDS_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<FairnessThresholds>("fairness-report", {
+        method: "GET",
+      });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setDraft({
+        min_disparate_impact: String(data.min_disparate_impact),
+        max_mean_pd_gap: String(data.max_mean_pd_gap),
+        min_group_size: String(data.min_group_size),
+      });
+    }
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: async (thresholds: FairnessThresholds) => {
+      const { error } = await supabase.functions.invoke("fairness-report", { method: "PUT", body: thresholds });
+      if (error instanceof FunctionsHttpError && error.context.status === 422) {
+        const body = await error.context.json();
+        setIssues(body.fields ?? []);
+        throw new Error("Please correct the highlighted fields.");
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: FAIRNESS_THRESHOLDS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["fairness-report"] });
+      toast({ title: "Thresholds Saved", description: "The report has been re-evaluated against them." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const toNumber = (value: string) => (value.trim() === "" ? NaN : Number(value));
+    const validation = validateFairnessThresholds({
+      min_disparate_impact: toNumber(draft.min_disparate_impact),
+      max_mean_pd_gap: toNumber(draft.max_mean_pd_gap),
+      min_group_size: toNumber(draft.min_group_size),
+    });
+    if (validation.success === false) {
+      setIssues(validation.issues);
+      return;
+    }
+    save.mutate(validation.data);
+  };
+
+  const issueFor = (field: string) => issues.find((issue) => issue.field === field)?.message;
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-primary" />
+          Alert Thresholds
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-destructive">
+            Failed to load the thresholds: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading || !draft ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="flex flex-wrap items-start gap-6">
+            {FIELDS.map(({ field, label, step, hint }) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={field}>{label}</Label>
+                <Input
+                  id={field}
+                  type="number"
+                  className="w-48"
+                  step={step}
+                  value={draft[field]}
+                  onChange={(e) => {
+                    setDraft({ ...draft, [field]: e.target.value });
+                    setIssues([]);
+                  }}
+                />
+                {issueFor(field) ? (
+                  <p className="text-sm text-destructive">{issueFor(field)}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{hint}</p>
+                )}
+              </div>
+            ))}
+            <Button variant="hero" className="mt-8" onClick={handleSave} disabled={save.isPending}>
+              {save.isPending ? "Saving..." : "Save Thresholds"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FairnessThresholdSettings;
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GitBranch } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BUCKET_SCHEMES_KEY } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import { validateModelRouting, type ModelRouting } from "@shared/modelRouting.ts";
+
+interface RegisteredVersion {
+  id: string;
+  description: string;
+  feature_count: number;
+  cutoffs: Record<string, number>;
+}
+
+interface RegistryResponse {
+  versions: RegisteredVersion[];
+  routing: ModelRouting;
+}
+
+const REGISTRY_KEY = ["model-registry"];
+const NO_CHALLENGER = "none";
+
+const formatCutoffs = ({ A, B, C }: Record<string, number>) =>
+  [A, B, C].map((c) => `${Number((c * 100).toFixed(1))}%`).join(" / ");
+
+/** Admin card listing registered model versions and editing champion/challenger routing */
+const ModelRoutingSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ModelRouting | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: REGISTRY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<RegistryResponse>("model-registry", { method: "GET" });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.routing);
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: async (routing: ModelRouting) => {
+      const { error } = await supabase.functions.invoke("model-registry", { method: "PUT", body: routing });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: REGISTRY_KEY });
+      // The default bucket scheme follows the champion's cutoffs
+      queryClient.invalidateQueries({ queryKey: BUCKET_SCHEMES_KEY });
+      toast({ title: "Routing Saved", description: "Scoring instances pick up the change within a minute." });
+    },
+    onError: (error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    const validation = validateModelRouting(draft);
+    if (validation.success === false) {
+      toast({
+        title: "Invalid Routing",
+        description: validation.issues.map((i) => `${i.field}: ${i.message}`).join("; "),
+        variant: "destructive",
+      });
+      return;
+    }
+    save.mutate(validation.data);
+  };
+
+  const roleOf = (id: string) =>
+    id === data?.routing.champion ? "Champion" : id === data?.routing.challenger ? "Challenger" : null;
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="w-5 h-5 text-primary" />
+          Model Versions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {error ? (
+          <p className="text-destructive">
+            Failed to load the model registry: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading || !draft ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Features</TableHead>
+                  <TableHead>Cutoffs (A / B / C)</TableHead>
+                  <TableHead className="text-right">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.versions.map((version) => (
+                  <TableRow key={version.id}>
+                    <TableCell className="font-mono">{version.id}</TableCell>
+                    <TableCell className="text-muted-foreground">{version.description}</TableCell>
+                    <TableCell>{version.feature_count}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {formatCutoffs(version.cutoffs)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {roleOf(version.id) && <Badge variant="secondary">{roleOf(version.id)}</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid md:grid-cols-3 gap-6 border-t border-border/50 pt-6">
+              <div className="space-y-2">
+                <Label htmlFor="champion">Champion</Label>
+                <Select value={draft.champion} onValueChange={(champion) => setDraft({ ...draft, champion })}>
+                  <SelectTrigger id="champion">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {data.versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>{version.id}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="challenger">Challenger</Label>
+                <Select
+                  value={draft.challenger ?? NO_CHALLENGER}
+                  onValueChange={(value) =>
+                    setDraft(
+                      value === NO_CHALLENGER
+                        ? { ...draft, challenger: null, challenger_traffic: 0 }
+                        : { ...draft, challenger: value },
+                    )
+                  }
+                >
+                  <SelectTrigger id="challenger">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CHALLENGER}>None</SelectItem>
+                    {data.versions
+                      .filter((version) => version.id !== draft.champion)
+                      .map((version) => (
+                        <SelectItem key={version.id} value={version.id}>{version.id}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Challenger traffic: {draft.challenger_traffic}%</Label>
+                <Slider
+                  className="pt-3"
+                  min={0}
+                  max={100}
+                  step={1}
+                  disabled={!draft.challenger}
+                  value={[draft.challenger_traffic]}
+                  onValueChange={([challenger_traffic]) => setDraft({ ...draft, challenger_traffic })}
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              With a challenger set, every applicant is scored by both versions. The challenger's score is returned
+              for the chosen share of applicants; the other score is stored in shadow mode.
+            </p>
+
+            <Button variant="hero" onClick={handleSave} disabled={save.isPending}>
+              {save.isPending ? "Saving..." : "Save Routing"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelRoutingSettings;
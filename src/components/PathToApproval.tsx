@@ -0,0 +1,80 @@
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+
+export interface CounterfactualChange {
+  field: "credit_amount" | "annuity" | "AMT_GOODS_PRICE";
+  from: number;
+  to: number;
+}
+
+export interface Counterfactual {
+  changes: CounterfactualChange[];
+  probability: number;
+  bucket: string;
+}
+
+export interface PathToApprovalResult {
+  target_bucket: string;
+  suggestions: Counterfactual[];
+}
+
+const FIELD_LABELS: Record<CounterfactualChange["field"], string> = {
+  credit_amount: "requested credit",
+  annuity: "annuity",
+  AMT_GOODS_PRICE: "goods price",
+};
+
+const formatAmount = (value: number) => `₹${value.toLocaleString()}`;
+
+const joinList = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0];
+
+/** "Reduce requested credit to ₹410,000", one clause per direction of change */
+function describe(changes: CounterfactualChange[]): string {
+  const clauses = (["Reduce", "Increase"] as const).flatMap((verb) => {
+    const moved = changes.filter(({ from, to }) => (verb === "Reduce" ? to < from : to > from));
+    return moved.length > 0 ? [`${verb} ${joinList(moved.map((c) => `${FIELD_LABELS[c.field]} to ${formatAmount(c.to)}`))}`] : [];
+  });
+  return clauses.join("; ");
+}
+
+interface PathToApprovalProps {
+  path: PathToApprovalResult;
+  bucketSchemeId: string;
+}
+
+/** Counterfactual suggestions for an adverse result, smallest change first */
+const PathToApproval = ({ path, bucketSchemeId }: PathToApprovalProps) => {
+  const { findBucket } = useBucketSchemes();
+
+  if (path.suggestions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No change of up to 60% to the credit amount, annuity or goods price reaches bucket {path.target_bucket}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2 text-sm">
+        {path.suggestions.map((suggestion) => (
+          <li key={describe(suggestion.changes)} className="flex items-start justify-between gap-4">
+            <span>{describe(suggestion.changes)}</span>
+            <span className="whitespace-nowrap font-mono">
+              {(suggestion.probability * 100).toFixed(1)}% ·{" "}
+              <span className="font-bold" style={{ color: findBucket(suggestion.bucket, bucketSchemeId)?.color }}>
+                {suggestion.bucket}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-muted-foreground">
+        Smallest changes to the loan terms that reach bucket {path.target_bucket} or better. All other details stay
+        as entered.
+      </p>
+    </div>
+  );
+};
+
+export default PathToApproval;
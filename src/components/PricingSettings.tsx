@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BadgeIndianRupee, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import { CONTRACT_TYPES, type FieldIssue } from "@shared/applicantSchema.ts";
+import { validatePricingConfig, type PricingConfig } from "@shared/pricing.ts";
+
+interface DraftBand {
+  bucket: string;
+  minRate: string;
+  maxRate: string;
+}
+
+interface Draft {
+  /** LGD per contract type in percent, as typed */
+  lgdPercent: Record<string, string>;
+  grid: DraftBand[];
+}
+
+const PRICING_KEY = ["pricing-config"];
+
+const toDraft = ({ lgd, grid }: PricingConfig): Draft => ({
+  lgdPercent: Object.fromEntries(Object.entries(lgd).map(([type, value]) => [type, String(Number((value * 100).toFixed(2)))])),
+  grid: grid.map((band) => ({ bucket: band.bucket, minRate: String(band.min_rate), maxRate: String(band.max_rate) })),
+});
+
+const toNumber = (value: string) => (value.trim() === "" ? NaN : Number(value));
+
+/** Admin card for the loss-given-default table and the per-bucket pricing grid */
+const PricingSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { active: activeScheme } = useBucketSchemes();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [issues, setIssues] = useState<FieldIssue[]>([]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: PRICING_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<PricingConfig>("pricing-config", { method: "GET" });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  useEffect(() => {
+    if (data) setDraft(toDraft(data));
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: async (pricing: PricingConfig) => {
+      const { error } = await supabase.functions.invoke("pricing-config", { method: "PUT", body: pricing });
+      if (error instanceof FunctionsHttpError && error.context.status === 422) {
+        const body = await error.context.json();
+        setIssues(body.fields ?? []);
+        throw new Error("Please correct the highlighted fields.");
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PRICING_KEY });
+      toast({ title: "Pricing Saved", description: "Scoring instances pick up the change within a minute." });
+    },
+    onError: (error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = (patch: Partial<Draft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+    setIssues([]);
+  };
+
+  const updateBand = (index: number, patch: Partial<DraftBand>) =>
+    draft && update({ grid: draft.grid.map((band, i) => (i === index ? { ...band, ...patch } : band)) });
+
+  const handleSave = () => {
+    if (!draft) return;
+    const validation = validatePricingConfig({
+      lgd: Object.fromEntries(Object.entries(draft.lgdPercent).map(([type, value]) => [type, toNumber(value) / 100])),
+      grid: draft.grid.map((band) => ({
+        bucket: band.bucket,
+        min_rate: toNumber(band.minRate),
+        max_rate: toNumber(band.maxRate),
+      })),
+    });
+    if (validation.success === false) {
+      setIssues(validation.issues);
+      return;
+    }
+    save.mutate(validation.data);
+  };
+
+  const issueFor = (field: string) => issues.find((issue) => issue.field === field)?.message;
+  const unpriced = draft
+    ? activeScheme.buckets.map((b) => b.name).filter((name) => !draft.grid.some((band) => band.bucket === name))
+    : [];
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BadgeIndianRupee className="w-5 h-5 text-primary" />
+          Pricing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {error ? (
+          <p className="text-destructive">
+            Failed to load the pricing configuration: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading || !draft ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <h4 className="font-semibold">Loss Given Default</h4>
+              <div className="grid md:grid-cols-2 gap-6">
+                {CONTRACT_TYPES.map((type) => (
+                  <div key={type} className="space-y-2">
+                    <Label htmlFor={`lgd-${type}`}>{type} (%)</Label>
+                    <Input
+                      id={`lgd-${type}`}
+                      type="number"
+                      step="1"
+                      value={draft.lgdPercent[type] ?? ""}
+                      onChange={(e) => update({ lgdPercent: { ...draft.lgdPercent, [type]: e.target.value } })}
+                    />
+                    {issueFor(`lgd.${type}`) && <p className="text-sm text-destructive">{issueFor(`lgd.${type}`)}</p>}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-4 border-t border-border/50 pt-6">
+              <h4 className="font-semibold">Rate Grid</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bucket</TableHead>
+                    <TableHead>Min rate (% p.a.)</TableHead>
+                    <TableHead>Max rate (% p.a.)</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {draft.grid.map((band, i) => {
+                    const bandIssues = ["bucket", "min_rate", "max_rate"]
+                      .map((field) => issueFor(`grid.${i}.${field}`))
+                      .filter(Boolean);
+                    return (
+                      <TableRow key={i}>
+                        <TableCell>
+                          <Input
+                            className="w-16"
+                            value={band.bucket}
+                            onChange={(e) => updateBand(i, { bucket: e.target.value })}
+                            aria-label={`Band ${i + 1} bucket`}
+                          />
+                          {bandIssues.length > 0 && (
+                            <p className="text-sm text-destructive mt-1">{bandIssues.join("; ")}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="w-24"
+                            type="number"
+                            step="0.25"
+                            value={band.minRate}
+                            onChange={(e) => updateBand(i, { minRate: e.target.value })}
+                            aria-label={`Band ${i + 1} minimum rate`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="w-24"
+                            type="number"
+                            step="0.25"
+                            value={band.maxRate}
+                            onChange={(e) => updateBand(i, { maxRate: e.target.value })}
+                            aria-label={`Band ${i + 1} maximum rate`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => update({ grid: draft.grid.filter((_, j) => j !== i) })}
+                            aria-label={`Remove band ${i + 1}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ grid: [...draft.grid, { bucket: unpriced[0] ?? "", minRate: "", maxRate: "" }] })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Band
+              </Button>
+
+              {unpriced.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Buckets of the active scheme without a band get no suggested rate: {unpriced.join(", ")}
+                </p>
+              )}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Expected loss is PD × LGD × the requested credit. The suggested rate sits within the bucket's band in
+              proportion to where the applicant's probability falls within the bucket.
+            </p>
+
+            <Button variant="hero" onClick={handleSave} disabled={save.isPending}>
+              {save.isPending ? "Saving..." : "Save Pricing"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PricingSettings;
@@ -0,0 +1,64 @@
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { PERMISSIONS, type Permission } from "@shared/roles.ts";
+
+interface ProtectedRouteProps {
+  permission: Permission;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only for a signed-in user whose roles grant the
+ * permission. Signed-out visitors are sent to /login and returned afterwards;
+ * when the roles failed to load, the error is shown with a retry.
+ */
+const ProtectedRoute = ({ permission, children }: ProtectedRouteProps) => {
+  const { user, loading, rolesError, retryRoles, can } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <div className="min-h-screen bg-background" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (rolesError) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center max-w-md px-6">
+          <h1 className="mb-4 text-4xl font-bold text-gradient">Roles Unavailable</h1>
+          <p className="mb-6 text-muted-foreground">
+            Your roles could not be loaded ({rolesError}), so access to this page cannot be checked.
+          </p>
+          <Button variant="outline" onClick={retryRoles}>
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!can(permission)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center max-w-md px-6">
+          <h1 className="mb-4 text-4xl font-bold text-gradient">Access Restricted</h1>
+          <p className="mb-6 text-muted-foreground">
+            This page requires one of the roles: {PERMISSIONS[permission].join(", ")}. Ask an administrator to
+            grant you access.
+          </p>
+          <Link to="/">
+            <Button variant="outline">Return to Home</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TableProperties } from "lucide-react";
+import type { Amortization, LoanTerms } from "@/lib/amortization";
+
+interface RepaymentSummaryProps {
+  terms: LoanTerms;
+  amortization: Amortization;
+}
+
+const formatAmount = (value: number) =>
+  `₹${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Computed annuity and totals for a scored loan, with its amortization schedule in a dialog */
+const RepaymentSummary = ({ terms, amortization }: RepaymentSummaryProps) => {
+  const stats = [
+    { label: "Monthly Annuity", value: formatAmount(amortization.annuity) },
+    { label: "Total Repayable", value: formatAmount(amortization.totalRepayable) },
+    { label: "Total Interest", value: formatAmount(amortization.totalInterest) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {stats.map(({ label, value }) => (
+          <div key={label}>
+            <div className="text-lg font-bold">{value}</div>
+            <div className="text-xs text-muted-foreground">{label}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-center text-muted-foreground">
+        {formatAmount(terms.principal)} at {terms.annualRate}% p.a. over {terms.termMonths} months
+      </p>
+
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="outline" className="w-full">
+            <TableProperties className="w-4 h-4 mr-2" />
+            View Amortization Schedule
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Amortization Schedule</DialogTitle>
+            <DialogDescription>
+              {terms.termMonths} monthly payments of {formatAmount(amortization.annuity)}; the last absorbs rounding.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="h-[60vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead className="text-right">Payment</TableHead>
+                  <TableHead className="text-right">Interest</TableHead>
+                  <TableHead className="text-right">Principal</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {amortization.schedule.map((row) => (
+                  <TableRow key={row.month}>
+                    <TableCell>{row.month}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.payment)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.interest)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.principal)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RepaymentSummary;
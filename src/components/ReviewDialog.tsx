@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X } from "lucide-react";
+import ContributionWaterfall from "@/components/ContributionWaterfall";
+import { useToast } from "@/hooks/use-toast";
+import { useApplicantData } from "@/hooks/use-applicant-data";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import type { FiredRule, Recommendation } from "@shared/decisionPolicy.ts";
+import { MAX_COMMENT_LENGTH, validateReview } from "@shared/review.ts";
+
+export interface ReferredApplication {
+  id: string;
+  created_at: string;
+  probability: number;
+  bucket: string;
+  bucket_scheme_id: string;
+  model_version: string;
+  recommendation: Recommendation | null;
+  rules_fired: FiredRule[];
+  reason_codes: { code: string; text: string }[];
+}
+
+interface ReviewDialogProps {
+  application: ReferredApplication | null;
+  onClose: () => void;
+  onReviewed: () => void;
+}
+
+const formatValue = (value: unknown) =>
+  typeof value === "number" ? value.toLocaleString() : typeof value === "string" ? value : JSON.stringify(value);
+
+/** Everything an underwriter needs to decide a referred application, and the decision form */
+const ReviewDialog = ({ application, onClose, onReviewed }: ReviewDialogProps) => {
+  const { toast } = useToast();
+  const { findBucket } = useBucketSchemes();
+  const { byId: applicants, isLoading: applicantLoading } = useApplicantData(application ? [application.id] : []);
+  const applicant = application ? applicants.get(application.id) : undefined;
+  const [comment, setComment] = useState("");
+  const [commentError, setCommentError] = useState<string | null>(null);
+
+  const submit = useMutation({
+    mutationFn: async (decision: Recommendation) => {
+      const { error } = await supabase.functions.invoke("review-decisions", {
+        body: { prediction_id: application!.id, decision, comment },
+      });
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json();
+        throw new Error(body.fields?.map((f: { message: string }) => f.message).join("; ") || body.error);
+      }
+      if (error) throw error;
+    },
+    onSuccess: (_data, decision) => {
+      toast({ title: decision === "approve" ? "Application Approved" : "Application Declined" });
+      setComment("");
+      onReviewed();
+    },
+    onError: (error) => {
+      toast({ title: "Review Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDecision = (decision: Recommendation) => {
+    const validation = validateReview({ prediction_id: application!.id, decision, comment });
+    if (validation.success === false) {
+      setCommentError(validation.issues.find((i) => i.field === "comment")?.message ?? validation.issues[0].message);
+      return;
+    }
+    submit.mutate(decision);
+  };
+
+  const bucket = application ? findBucket(application.bucket, application.bucket_scheme_id) : undefined;
+
+  return (
+    <Dialog
+      open={application !== null}
+      onOpenChange={(open) => {
+        if (!open) {
+          setComment("");
+          setCommentError(null);
+          onClose();
+        }
+      }}
+    >
+      {application && (
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Referred Application</DialogTitle>
+            <DialogDescription>
+              Scored {format(new Date(application.created_at), "dd MMM yyyy HH:mm")} by {application.model_version}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[65vh] pr-4">
+            <div className="space-y-6">
+              <div className="flex items-center justify-around text-center">
+                <div>
+                  <div className="text-3xl font-bold">{(application.probability * 100).toFixed(1)}%</div>
+                  <div className="text-xs text-muted-foreground">Default probability</div>
+                </div>
+                <div>
+                  <div className="text-3xl font-bold" style={{ color: bucket?.color }}>
+                    {application.bucket}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{bucket?.label ?? "Bucket"}</div>
+                </div>
+                <div>
+                  <div className="text-3xl font-bold capitalize">{application.recommendation ?? "—"}</div>
+                  <div className="text-xs text-muted-foreground">Model recommendation</div>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Why It Was Referred</h4>
+                <ul className="space-y-1 text-sm">
+                  {application.rules_fired.map((rule) => (
+                    <li key={rule.id} className="flex gap-3">
+                      <span className="font-mono text-muted-foreground">{rule.id}</span>
+                      <span>{rule.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Applicant</h4>
+                {applicantLoading ? (
+                  <p className="text-sm text-muted-foreground">Loading...</p>
+                ) : !applicant || applicant.purged ? (
+                  <p className="text-sm text-muted-foreground">Applicant data is no longer available.</p>
+                ) : (
+                  <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+                    {Object.entries(applicant.input).map(([field, value]) => (
+                      <div key={field}>
+                        <dt className="text-xs text-muted-foreground font-mono">{field}</dt>
+                        <dd>{value === null ? "—" : formatValue(value)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </div>
+
+              {application.reason_codes.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold mb-2">Principal Reasons</h4>
+                  <ol className="space-y-1 text-sm">
+                    {application.reason_codes.map((reason) => (
+                      <li key={reason.code} className="flex gap-3">
+                        <span className="font-mono text-muted-foreground">{reason.code}</span>
+                        <span>{reason.text}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {applicant?.explanation && (
+                <div>
+                  <h4 className="text-sm font-semibold mb-2">Why This Score</h4>
+                  <ContributionWaterfall explanation={applicant.explanation} probability={application.probability} />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="reviewComment">Comment (required)</Label>
+                <Textarea
+                  id="reviewComment"
+                  maxLength={MAX_COMMENT_LENGTH}
+                  placeholder="Explain the decision, especially when it differs from the model recommendation"
+                  value={comment}
+                  onChange={(e) => {
+                    setComment(e.target.value);
+                    setCommentError(null);
+                  }}
+                />
+                {commentError && <p className="text-sm text-destructive">{commentError}</p>}
+              </div>
+            </div>
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleDecision("decline")} disabled={submit.isPending}>
+              <X className="w-4 h-4 mr-2" />
+              Decline
+            </Button>
+            <Button variant="hero" onClick={() => handleDecision("approve")} disabled={submit.isPending}>
+              <Check className="w-4 h-4 mr-2" />
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
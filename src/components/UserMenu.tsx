@@ -0,0 +1,76 @@
+import { Link } from "react-router-dom";
+import { Activity, ClipboardCheck, LayoutDashboard, LogOut, Scale, ScrollText, Shield } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+const UserMenu = () => {
+  const { user, roles, rolesError, can, signOut } = useAuth();
+
+  if (!user) {
+    return (
+      <Link to="/login">
+        <Button variant="outline" size="sm">Sign In</Button>
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="hidden md:inline text-sm text-muted-foreground">{user.email}</span>
+      {roles.map((role) => (
+        <Badge key={role} variant="secondary">{role}</Badge>
+      ))}
+      {rolesError && (
+        <Badge variant="destructive" title={rolesError}>roles unavailable</Badge>
+      )}
+      {can("review") && (
+        <Link to="/review">
+          <Button variant="ghost" size="icon" aria-label="Review queue">
+            <ClipboardCheck className="w-4 h-4" />
+          </Button>
+        </Link>
+      )}
+      {can("viewMonitoring") && (
+        <Link to="/dashboard">
+          <Button variant="ghost" size="icon" aria-label="Portfolio dashboard">
+            <LayoutDashboard className="w-4 h-4" />
+          </Button>
+        </Link>
+      )}
+      {can("viewMonitoring") && (
+        <Link to="/fairness">
+          <Button variant="ghost" size="icon" aria-label="Fairness monitoring">
+            <Scale className="w-4 h-4" />
+          </Button>
+        </Link>
+      )}
+      {can("viewMonitoring") && (
+        <Link to="/drift">
+          <Button variant="ghost" size="icon" aria-label="Model drift">
+            <Activity className="w-4 h-4" />
+          </Button>
+        </Link>
+      )}
+      {can("viewAudit") && (
+        <Link to="/audit">
+          <Button variant="ghost" size="icon" aria-label="Audit log">
+            <ScrollText className="w-4 h-4" />
+          </Button>
+        </Link>
+      )}
+      {can("manageConfig") && (
+        <Link to="/admin">
+          <Button variant="ghost" size="icon" aria-label="Administration">
+            <Shield className="w-4 h-4" />
+          </Button>
+        </Link>
+      )}
+      <Button variant="ghost" size="icon" aria-label="Sign out" onClick={signOut}>
+        <LogOut className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default UserMenu;
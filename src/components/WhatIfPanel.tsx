@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pin, RotateCcw, SlidersHorizontal, X } from "lucide-react";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import { suppressedAttributes, validateApplicant, type ApplicantData } from "@shared/applicantSchema.ts";
+
+interface ScoredOutcome {
+  probability: number;
+  bucket: string;
+  bucketSchemeId: string;
+  modelVersion: string;
+}
+
+interface ScenarioInputs {
+  credit_amount: number;
+  annuity: number;
+  employment_years: number;
+}
+
+interface PinnedScenario extends ScenarioInputs, ScoredOutcome {
+  id: number;
+}
+
+interface WhatIfPanelProps {
+  baseline: ApplicantData;
+  baselineResult: ScoredOutcome;
+}
+
+// Wait for the sliders to settle before re-scoring
+const DEBOUNCE_MS = 400;
+const MAX_PINNED = 4;
+
+function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+}
+
+const formatAmount = (value: number) => `₹${Math.round(value).toLocaleString()}`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatDelta = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)} pts`;
+const formatChange = (value: number, base: number) =>
+  base === 0 || value === base ? "" : ` (${value > base ? "+" : ""}${(((value - base) / base) * 100).toFixed(0)}%)`;
+
+/** Credit over monthly annuity: how many months the loan would run before interest */
+const impliedTerm = ({ credit_amount, annuity }: ScenarioInputs) => `${Math.round(credit_amount / annuity)} mo`;
+
+/**
+ * Re-scores the applicant live while credit amount, annuity and employment
+ * years are varied, showing the change against the original result. Scenarios
+ * can be pinned for side-by-side comparison; none of them are stored.
+ */
+const WhatIfPanel = ({ baseline, baselineResult }: WhatIfPanelProps) => {
+  const { findBucket } = useBucketSchemes();
+  const initial: ScenarioInputs = {
+    credit_amount: baseline.credit_amount,
+    annuity: baseline.annuity,
+    employment_years: baseline.employment_years,
+  };
+  const [inputs, setInputs] = useState<ScenarioInputs>(initial);
+  const [pinned, setPinned] = useState<PinnedScenario[]>([]);
+  const debounced = useDebouncedValue(inputs, DEBOUNCE_MS);
+
+  const changed =
+    debounced.credit_amount !== initial.credit_amount ||
+    debounced.annuity !== initial.annuity ||
+    debounced.employment_years !== initial.employment_years;
+  // Scenarios are scored without the attributes the baseline was scored without
+  const suppress = suppressedAttributes(baseline);
+  const validation = validateApplicant({ ...baseline, ...debounced }, suppress);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["what-if", baseline, debounced],
+    queryFn: async (): Promise<ScoredOutcome> => {
+      // Pinned to the baseline's version, so the delta never compares two models
+      const { data, error } = await supabase.functions.invoke("predict-risk", {
+        body: { data: { ...baseline, ...debounced }, scenario: true, model_version: baselineResult.modelVersion, suppress },
+      });
+      if (error) throw new Error(error.message || "Scenario scoring failed");
+      if (data.model_version !== baselineResult.modelVersion) {
+        throw new Error(`Scenario was scored by ${data.model_version}, not ${baselineResult.modelVersion}`);
+      }
+      return {
+        probability: data.probability,
+        bucket: data.bucket,
+        bucketSchemeId: data.bucket_scheme_id,
+        modelVersion: data.model_version,
+      };
+    },
+    enabled: changed && validation.success,
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+  });
+
+  const outcome = changed ? data : baselineResult;
+  const issues = validation.success === false ? validation.issues : [];
+
+  const sliders: { field: keyof ScenarioInputs; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+    {
+      field: "credit_amount",
+      label: "Credit Amount",
+      min: Math.round(initial.credit_amount * 0.5),
+      max: Math.round(initial.credit_amount * 1.5),
+      step: Math.max(1, Math.round(initial.credit_amount / 100)),
+      format: formatAmount,
+    },
+    {
+      field: "annuity",
+      label: "Annuity",
+      min: Math.round(initial.annuity * 0.5),
+      max: Math.round(initial.annuity * 1.5),
+      step: Math.max(1, Math.round(initial.annuity / 100)),
+      format: formatAmount,
+    },
+    {
+      field: "employment_years",
+      label: "Employment Years",
+      min: 0,
+      max: Math.max(40, Math.ceil(initial.employment_years)),
+      step: 0.5,
+      format: (v) => `${v} yrs`,
+    },
+  ];
+
+  const bucketCell = (outcome: ScoredOutcome) => (
+    <span className="font-bold" style={{ color: findBucket(outcome.bucket, outcome.bucketSchemeId)?.color }}>
+      {outcome.bucket}
+    </span>
+  );
+
+  const handlePin = () => {
+    if (!outcome || !changed) return;
+    setPinned((prev) => [...prev, { id: Date.now(), ...debounced, ...outcome }].slice(-MAX_PINNED));
+  };
+
+  const comparison = [
+    { id: 0, name: "Baseline", ...initial, ...baselineResult },
+    ...pinned.map((p, i) => ({ ...p, name: `Scenario ${i + 1}` })),
+  ];
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-primary" />
+          What If
+        </CardTitle>
+        <Button variant="ghost" size="sm" onClick={() => setInputs(initial)} disabled={!changed}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sliders.map(({ field, label, min, max, step, format }) => (
+          <div key={field} className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <Label>{label}</Label>
+              <span className="font-mono">
+                {format(inputs[field])}
+                <span className="text-muted-foreground">{formatChange(inputs[field], initial[field])}</span>
+              </span>
+            </div>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={[inputs[field]]}
+              onValueChange={([value]) => setInputs((prev) => ({ ...prev, [field]: value }))}
+            />
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">Implied term: {impliedTerm(inputs)}</p>
+
+        <div className="rounded-lg border border-border/50 p-4 text-center">
+          {issues.length > 0 ? (
+            <p className="text-sm text-destructive">{issues.map((i) => i.message).join("; ")}</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error.message}</p>
+          ) : outcome ? (
+            <div className={isFetching ? "opacity-60 transition-opacity" : "transition-opacity"}>
+              <div className="text-3xl font-bold">
+                {formatPercent(outcome.probability)} · {bucketCell(outcome)}
+              </div>
+              <div className="text-sm text-muted-foreground mt-1">
+                {changed
+                  ? `${formatDelta(outcome.probability - baselineResult.probability)} vs baseline` +
+                    (outcome.bucket !== baselineResult.bucket ? `, bucket ${baselineResult.bucket} → ${outcome.bucket}` : "")
+                  : "Move a slider to explore a scenario"}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Scoring...</p>
+          )}
+        </div>
+
+        <Button variant="outline" className="w-full" onClick={handlePin} disabled={!changed || !outcome || isFetching}>
+          <Pin className="w-4 h-4 mr-2" />
+          Pin Scenario
+        </Button>
+
+        {pinned.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {comparison.map((c) => (
+                  <TableHead key={c.id}>
+                    <div className="flex items-center gap-1">
+                      {c.name}
+                      {c.id !== 0 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5"
+                          onClick={() => setPinned((prev) => prev.filter((p) => p.id !== c.id))}
+                          aria-label={`Unpin ${c.name}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="text-muted-foreground">Credit</TableCell>
+                {comparison.map((c) => <TableCell key={c.id}>{formatAmount(c.credit_amount)}</TableCell>)}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-muted-foreground">Annuity</TableCell>
+                {comparison.map((c) => <TableCell key={c.id}>{formatAmount(c.annuity)}</TableCell>)}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-muted-foreground">Term</TableCell>
+                {comparison.map((c) => <TableCell key={c.id}>{impliedTerm(c)}</TableCell>)}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-muted-foreground">Employment</TableCell>
+                {comparison.map((c) => <TableCell key={c.id}>{c.employment_years} yrs</TableCell>)}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-muted-foreground">Probability</TableCell>
+                {comparison.map((c) => (
+                  <TableCell key={c.id}>
+                    {formatPercent(c.probability)}
+                    {c.id !== 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {formatDelta(c.probability - baselineResult.probability)}
+                      </div>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-muted-foreground">Bucket</TableCell>
+                {comparison.map((c) => <TableCell key={c.id}>{bucketCell(c)}</TableCell>)}
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WhatIfPanel;
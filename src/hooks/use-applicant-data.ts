@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Explanation } from "@shared/explanation.ts";
+
+/** A stored prediction's applicant data with its sensitive fields decrypted */
+export interface ApplicantRecord {
+  id: string;
+  /** Fields withheld at storage time, because no key was configured, are null */
+  input: Record<string, unknown>;
+  /** Values withheld at storage time are null, like the input's */
+  explanation: Explanation<number | string | null> | null;
+  /** Past the retention period: input is empty and explanation null */
+  purged: boolean;
+}
+
+/**
+ * Decrypted applicant data for up to 100 predictions, by id. Sensitive
+ * fields are encrypted at rest and only the applicant-data function holds the
+ * key, so tables fetch their rows first and then the fields they display.
+ */
+export function useApplicantData(predictionIds: string[]) {
+  const query = useQuery({
+    queryKey: ["applicant-data", predictionIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ predictions: ApplicantRecord[] }>("applicant-data", {
+        body: { prediction_ids: predictionIds },
+      });
+      if (error) throw error;
+      return new Map(data!.predictions.map((record) => [record.id, record]));
+    },
+    enabled: predictionIds.length > 0,
+    staleTime: 5 * 60_000,
+  });
+
+  return { ...query, byId: query.data ?? new Map<string, ApplicantRecord>() };
+}
@@ -0,0 +1,27 @@
+import * as React from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { AppRole, Permission } from "@shared/roles.ts";
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  roles: AppRole[];
+  /** True until the stored session and its roles have been loaded, and while a new user's roles load */
+  loading: boolean;
+  /** Why the roles could not be loaded; the user then has no roles until a retry succeeds */
+  rolesError: string | null;
+  retryRoles: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  signOut: () => Promise<void>;
+}
+
+/** Provided by AuthProvider, which loads the session and the user's roles */
+export const AuthContext = React.createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+  return context;
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_BLIND_SCORING, type BlindScoringConfig } from "@shared/blindScoring.ts";
+
+export const BLIND_SCORING_KEY = ["blind-scoring"];
+
+/** Products scored without protected attributes, as served by the blind-scoring function */
+export function useBlindScoring() {
+  const query = useQuery({
+    queryKey: BLIND_SCORING_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<BlindScoringConfig>("blind-scoring", { method: "GET" });
+      if (error) throw error;
+      return data!;
+    },
+    staleTime: 60_000,
+  });
+
+  return { ...query, config: query.data ?? DEFAULT_BLIND_SCORING };
+}
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_BUCKET_SCHEME, type BucketDefinition, type BucketScheme } from "@shared/bucketScheme.ts";
+
+export interface BucketSchemesResponse {
+  active: BucketScheme;
+  schemes: BucketScheme[];
+}
+
+export const BUCKET_SCHEMES_KEY = ["bucket-schemes"];
+
+/** The active risk-bucket scheme and its alternatives, as served by the bucket-schemes function */
+export function useBucketSchemes() {
+  const query = useQuery({
+    queryKey: BUCKET_SCHEMES_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<BucketSchemesResponse>("bucket-schemes", {
+        method: "GET",
+      });
+      if (error) throw error;
+      return data!;
+    },
+    staleTime: 60_000,
+  });
+
+  const active = query.data?.active ?? DEFAULT_BUCKET_SCHEME;
+  const schemes = query.data?.schemes ?? [DEFAULT_BUCKET_SCHEME];
+
+  /**
+   * Look up a stored bucket in the scheme that assigned it, so predictions
+   * made under an earlier scheme keep their original label and colour.
+   */
+  const findBucket = (name: string, schemeId?: string): BucketDefinition | undefined =>
+    (schemes.find((s) => s.id === schemeId) ?? active).buckets.find((b) => b.name === name);
+
+  return { ...query, active, schemes, findBucket };
+}
@@ -14,16 +14,473 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          changes: Json | null
+          client: Json
+          details: Json
+          id: number
+          occurred_at: string
+          resource: string
+          resource_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changes?: Json | null
+          client?: Json
+          details?: Json
+          id?: never
+          occurred_at?: string
+          resource: string
+          resource_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changes?: Json | null
+          client?: Json
+          details?: Json
+          id?: never
+          occurred_at?: string
+          resource?: string
+          resource_id?: string | null
+        }
+        Relationships: []
+      }
+      blind_scoring: {
+        Row: {
+          id: boolean
+          products: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          products: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          products?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      bucket_schemes: {
+        Row: {
+          buckets: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+        }
+        Insert: {
+          buckets: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+        }
+        Update: {
+          buckets?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      data_retention: {
+        Row: {
+          id: boolean
+          retention_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          retention_days: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          retention_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      decision_policies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          is_active: boolean
+          note: string
+          policy: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          is_active?: boolean
+          note: string
+          policy: Json
+          version?: never
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          is_active?: boolean
+          note?: string
+          policy?: Json
+          version?: never
+        }
+        Relationships: []
+      }
+      fairness_thresholds: {
+        Row: {
+          id: boolean
+          max_mean_pd_gap: number
+          min_disparate_impact: number
+          min_group_size: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          max_mean_pd_gap: number
+          min_disparate_impact: number
+          min_group_size: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          max_mean_pd_gap?: number
+          min_disparate_impact?: number
+          min_group_size?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      model_routing: {
+        Row: {
+          challenger: string | null
+          challenger_traffic: number
+          champion: string
+          id: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          challenger?: string | null
+          challenger_traffic?: number
+          champion: string
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          challenger?: string | null
+          challenger_traffic?: number
+          champion?: string
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      predictions: {
+        Row: {
+          bucket: string
+          bucket_scheme_id: string
+          created_at: string
+          decision: string | null
+          engine: string
+          engine_version: string
+          explanation: Json | null
+          id: string
+          imputed_fields: string[]
+          input: Json
+          input_hash: string
+          model_role: string
+          model_version: string
+          policy_version: number | null
+          pricing: Json | null
+          probability: number
+          purged_at: string | null
+          reason_codes: Json
+          recommendation: string | null
+          rules_fired: Json
+          suppressed_attributes: string[]
+          user_id: string | null
+        }
+        Insert: {
+          bucket: string
+          bucket_scheme_id?: string
+          created_at?: string
+          decision?: string | null
+          engine: string
+          engine_version: string
+          explanation?: Json | null
+          id?: string
+          imputed_fields?: string[]
+          input: Json
+          input_hash: string
+          model_role?: string
+          model_version?: string
+          policy_version?: number | null
+          pricing?: Json | null
+          probability: number
+          purged_at?: string | null
+          reason_codes?: Json
+          recommendation?: string | null
+          rules_fired?: Json
+          suppressed_attributes?: string[]
+          user_id?: string | null
+        }
+        Update: {
+          bucket?: string
+          bucket_scheme_id?: string
+          created_at?: string
+          decision?: string | null
+          engine?: string
+          engine_version?: string
+          explanation?: Json | null
+          id?: string
+          imputed_fields?: string[]
+          input?: Json
+          input_hash?: string
+          model_role?: string
+          model_version?: string
+          policy_version?: number | null
+          pricing?: Json | null
+          probability?: number
+          purged_at?: string | null
+          reason_codes?: Json
+          recommendation?: string | null
+          rules_fired?: Json
+          suppressed_attributes?: string[]
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      pricing_config: {
+        Row: {
+          grid: Json
+          id: boolean
+          lgd: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          grid: Json
+          id?: boolean
+          lgd: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          grid?: Json
+          id?: boolean
+          lgd?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      reviews: {
+        Row: {
+          bucket: string
+          comment: string
+          decision: string
+          id: string
+          is_override: boolean
+          prediction_id: string
+          recommendation: string | null
+          reviewed_at: string
+          reviewer_email: string | null
+          reviewer_id: string | null
+        }
+        Insert: {
+          bucket: string
+          comment: string
+          decision: string
+          id?: string
+          is_override?: never
+          prediction_id: string
+          recommendation?: string | null
+          reviewed_at?: string
+          reviewer_email?: string | null
+          reviewer_id?: string | null
+        }
+        Update: {
+          bucket?: string
+          comment?: string
+          decision?: string
+          id?: string
+          is_override?: never
+          prediction_id?: string
+          recommendation?: string | null
+          reviewed_at?: string
+          reviewer_email?: string | null
+          reviewer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: true
+            referencedRelation: "predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shadow_predictions: {
+        Row: {
+          bucket: string
+          bucket_scheme_id: string
+          created_at: string
+          engine: string
+          engine_version: string
+          id: string
+          model_role: string
+          model_version: string
+          prediction_id: string
+          probability: number
+          reason_codes: Json
+        }
+        Insert: {
+          bucket: string
+          bucket_scheme_id: string
+          created_at?: string
+          engine: string
+          engine_version: string
+          id?: string
+          model_role: string
+          model_version: string
+          prediction_id: string
+          probability: number
+          reason_codes?: Json
+        }
+        Update: {
+          bucket?: string
+          bucket_scheme_id?: string
+          created_at?: string
+          engine?: string
+          engine_version?: string
+          id?: string
+          model_role?: string
+          model_version?: string
+          prediction_id?: string
+          probability?: number
+          reason_codes?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shadow_predictions_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activate_bucket_scheme: {
+        Args: {
+          _id: string | null
+        }
+        Returns: undefined
+      }
+      activate_decision_policy: {
+        Args: {
+          _version: number | null
+        }
+        Returns: undefined
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      purge_applicant_data: {
+        Args: {
+          _actor_email?: string
+          _actor_id?: string
+        }
+        Returns: number
+      }
+      review_override_rates: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          dimension: string
+          key: string
+          reviews: number
+          overrides: number
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "analyst" | "underwriter" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +607,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["analyst", "underwriter", "admin"],
+    },
   },
 } as const
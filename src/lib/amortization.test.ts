@@ -0,0 +1,31 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { amortize, MAX_ANNUAL_RATE, monthlyAnnuity, validateLoanTerms } from "./amortization.ts";
+
+Deno.test("the annuity is a level payment at any rate, and an even split at zero", () => {
+  assertEquals(monthlyAnnuity({ principal: 12000, annualRate: 0, termMonths: 12 }), 1000);
+  assertEquals(monthlyAnnuity({ principal: 100000, annualRate: 12, termMonths: 12 }), 8884.88);
+});
+
+Deno.test("the schedule repays the principal and ends at a zero balance", () => {
+  const terms = { principal: 250000, annualRate: 9.5, termMonths: 36 };
+  const { annuity, schedule, totalInterest, totalRepayable } = amortize(terms);
+  assertEquals(schedule.length, 36);
+  assertEquals(schedule[35].balance, 0);
+  assertEquals(Math.round(schedule.reduce((sum, row) => sum + row.principal, 0) * 100) / 100, terms.principal);
+  assertEquals(schedule.slice(0, 35).every((row) => row.payment === annuity), true);
+  assertEquals(Math.round((totalRepayable - totalInterest) * 100) / 100, terms.principal);
+});
+
+Deno.test("a one-month term is rejected and two months is the shortest allowed", () => {
+  assertEquals(Object.keys(validateLoanTerms({ annualRate: 10, termMonths: 1 })), ["termMonths"]);
+  assertEquals(validateLoanTerms({ annualRate: 10, termMonths: 2 }), {});
+  assertEquals(validateLoanTerms({ annualRate: MAX_ANNUAL_RATE + 1, termMonths: 12 }), {
+    interestRate: `Must be between 0 and ${MAX_ANNUAL_RATE}`,
+  });
+});
+
+Deno.test("the shortest term keeps the instalment below the credit at the highest rate", () => {
+  const annuity = monthlyAnnuity({ principal: 100000, annualRate: MAX_ANNUAL_RATE, termMonths: 2 });
+  assertEquals(annuity < 100000, true);
+});
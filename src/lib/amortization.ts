@@ -0,0 +1,81 @@
+/**
+ * Level-payment loan arithmetic for the Predict page's affordability mode:
+ * branch staff enter the amount, annual interest rate and term, and the
+ * monthly annuity sent for scoring is computed rather than typed by hand.
+ */
+
+export interface LoanTerms {
+  principal: number;
+  /** Nominal annual rate in percent, compounded monthly */
+  annualRate: number;
+  termMonths: number;
+}
+
+export interface ScheduleRow {
+  month: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface Amortization {
+  /** Monthly instalment, rounded to the paisa */
+  annuity: number;
+  totalRepayable: number;
+  totalInterest: number;
+  schedule: ScheduleRow[];
+}
+
+/**
+ * A one-month loan repays principal plus interest in a single instalment,
+ * which exceeds the credit amount and fails the scoring check that the
+ * annuity is at most the credit. From two months the instalment stays below
+ * the principal at any rate up to MAX_ANNUAL_RATE.
+ */
+export const MIN_TERM_MONTHS = 2;
+export const MAX_TERM_MONTHS = 480;
+export const MAX_ANNUAL_RATE = 100;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Field-level problems with the loan terms, keyed like the form inputs */
+export function validateLoanTerms({ annualRate, termMonths }: Partial<LoanTerms>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (annualRate === undefined || !Number.isFinite(annualRate)) errors.interestRate = "Required";
+  else if (annualRate < 0 || annualRate > MAX_ANNUAL_RATE) errors.interestRate = `Must be between 0 and ${MAX_ANNUAL_RATE}`;
+  if (termMonths === undefined || !Number.isFinite(termMonths)) errors.termMonths = "Required";
+  else if (!Number.isInteger(termMonths) || termMonths < MIN_TERM_MONTHS || termMonths > MAX_TERM_MONTHS) {
+    errors.termMonths = `Must be a whole number of months from ${MIN_TERM_MONTHS} to ${MAX_TERM_MONTHS}`;
+  }
+  return errors;
+}
+
+/** Monthly instalment that repays the principal over the term: P·r / (1 − (1 + r)^−n) */
+export function monthlyAnnuity({ principal, annualRate, termMonths }: LoanTerms): number {
+  const rate = annualRate / 100 / 12;
+  if (rate === 0) return round2(principal / termMonths);
+  return round2((principal * rate) / (1 - (1 + rate) ** -termMonths));
+}
+
+/**
+ * Month-by-month split of each instalment into interest and principal. The
+ * last payment absorbs rounding so the balance ends at exactly zero.
+ */
+export function amortize(terms: LoanTerms): Amortization {
+  const annuity = monthlyAnnuity(terms);
+  const rate = terms.annualRate / 100 / 12;
+  const schedule: ScheduleRow[] = [];
+
+  let balance = terms.principal;
+  for (let month = 1; month <= terms.termMonths; month++) {
+    const interest = round2(balance * rate);
+    const last = month === terms.termMonths;
+    const principal = last ? balance : Math.min(balance, round2(annuity - interest));
+    balance = round2(balance - principal);
+    schedule.push({ month, payment: round2(principal + interest), interest, principal: round2(principal), balance });
+  }
+
+  const totalRepayable = round2(schedule.reduce((sum, row) => sum + row.payment, 0));
+  return { annuity, totalRepayable, totalInterest: round2(totalRepayable - terms.principal), schedule };
+}
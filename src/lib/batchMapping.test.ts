@@ -0,0 +1,59 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { buildRecord, mapColumns } from "./batchMapping.ts";
+
+const FRIENDLY_HEADERS = [
+  "annual_income", "credit_amount", "annuity", "age", "employment_years", "gender", "contract_type", "education",
+];
+const FRIENDLY_ROW = ["180000", "450000", "2250", "35", "6", "F", "Cash loans", "Higher education"];
+
+Deno.test("the eight friendly columns map and can be scored", () => {
+  const report = mapColumns(FRIENDLY_HEADERS, [FRIENDLY_ROW]);
+  assertEquals(report.canScore, true);
+  assertEquals(report.missingFields, []);
+  assertEquals(buildRecord(FRIENDLY_ROW, report.columns).annuity, 2250);
+});
+
+Deno.test("Home Credit columns stand in for friendly fields, in the units scoring uses", () => {
+  const headers = [
+    "AMT_INCOME_TOTAL", "AMT_CREDIT", "AMT_ANNUITY", "DAYS_BIRTH", "DAYS_EMPLOYED",
+    "CODE_GENDER", "NAME_CONTRACT_TYPE", "NAME_EDUCATION_TYPE",
+  ];
+  const row = ["180000", "450000", "27000", "-7300", "365243", "XNA", "Cash loans", "Higher education"];
+  const report = mapColumns(headers, [row]);
+  assertEquals(report.canScore, true);
+
+  const record = buildRecord(row, report.columns);
+  assertEquals(record.annuity, 2250);
+  assertEquals(record.AMT_ANNUITY, 27000);
+  assertEquals(record.age, 20);
+  assertEquals(record.employment_years, 0);
+  assertEquals(record.gender, "XNA");
+});
+
+Deno.test("headers match case-insensitively and unknown ones are ignored", () => {
+  const report = mapColumns([...FRIENDLY_HEADERS.slice(0, 7), "EDUCATION", "notes"], [[...FRIENDLY_ROW, "vip"]]);
+  assertEquals(report.columns[7], {
+    index: 7, header: "EDUCATION", target: "education", status: "mapped", message: "Matched to education",
+  });
+  assertEquals(report.columns[8].status, "ignored");
+  assertEquals(report.canScore, true);
+});
+
+Deno.test("duplicate targets, bad values and uncovered fields block scoring", () => {
+  const headers = ["annual_income", "AMT_INCOME_TOTAL", "annual_income", "credit_amount", "gender"];
+  const report = mapColumns(headers, [["1e5", "100000", "200000", "lots", "X"]]);
+
+  assertEquals(report.columns.map((c) => c.status), ["mapped", "mapped", "error", "error", "error"]);
+  assertEquals(report.columns[2].message, "Duplicate of column 1");
+  assertEquals(report.columns[3].message, '1 value(s) not a number, first "lots" in row 1');
+  assertEquals(report.missingFields, ["annuity", "age", "employment_years", "contract_type", "education"]);
+  assertEquals(report.canScore, false);
+});
+
+Deno.test("empty cells are left out so scoring imputes them", () => {
+  const row = [...FRIENDLY_ROW];
+  row[4] = " ";
+  const record = buildRecord(row, mapColumns(FRIENDLY_HEADERS, [row]).columns);
+  assertEquals("employment_years" in record, false);
+});
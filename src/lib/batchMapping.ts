@@ -0,0 +1,154 @@
+import { FRIENDLY_COLUMNS, HOME_CREDIT_CATEGORIES } from "@shared/homeCredit.ts";
+import { MODEL_SUMMARIES } from "@shared/modelCatalog.ts";
+
+/**
+ * Maps uploaded CSV columns onto predict-risk request fields. A column may be
+ * one of the eight friendly fields or any Home Credit `feature_columns` name.
+ * Friendly fields that are not present are derived from their Home Credit
+ * source column, e.g. `age` from `DAYS_BIRTH`, in the units scoring uses.
+ */
+
+type FieldKind = "number" | "category";
+
+interface FriendlyField {
+  kind: FieldKind;
+  /** Home Credit column the field can be derived from */
+  source: string;
+  fromSource?: (value: number) => number;
+}
+
+const numericField = (field: keyof typeof FRIENDLY_COLUMNS): FriendlyField => ({
+  kind: "number",
+  source: FRIENDLY_COLUMNS[field].column,
+  fromSource: FRIENDLY_COLUMNS[field].fromColumn,
+});
+
+const FRIENDLY_FIELDS: Record<string, FriendlyField> = {
+  annual_income: numericField("annual_income"),
+  credit_amount: numericField("credit_amount"),
+  annuity: numericField("annuity"),
+  age: numericField("age"),
+  employment_years: numericField("employment_years"),
+  gender: { kind: "category", source: "CODE_GENDER" },
+  contract_type: { kind: "category", source: "NAME_CONTRACT_TYPE" },
+  education: { kind: "category", source: "NAME_EDUCATION_TYPE" },
+};
+
+// Columns any registered model version was trained on
+const HOME_CREDIT_COLUMNS = [...new Set(MODEL_SUMMARIES.flatMap((version) => version.featureColumns))];
+const CATEGORIES: Record<string, readonly string[]> = HOME_CREDIT_CATEGORIES;
+
+export type ColumnStatus = "mapped" | "ignored" | "error";
+
+export interface ColumnMapping {
+  index: number;
+  header: string;
+  /** Request field this column feeds, or null when it is ignored */
+  target: string | null;
+  status: ColumnStatus;
+  message?: string;
+}
+
+export interface MappingReport {
+  columns: ColumnMapping[];
+  /** Friendly fields with neither a column nor a Home Credit source column */
+  missingFields: string[];
+  canScore: boolean;
+}
+
+const KNOWN_FIELDS = [...Object.keys(FRIENDLY_FIELDS), ...HOME_CREDIT_COLUMNS];
+
+const kindOf = (field: string): FieldKind =>
+  FRIENDLY_FIELDS[field]?.kind ?? (field in CATEGORIES ? "category" : "number");
+
+const allowedValues = (field: string): readonly string[] | undefined =>
+  CATEGORIES[FRIENDLY_FIELDS[field]?.source ?? field];
+
+function resolveHeader(header: string): { target: string | null; message?: string } {
+  const trimmed = header.trim();
+  if (KNOWN_FIELDS.includes(trimmed)) return { target: trimmed };
+
+  const caseInsensitive = KNOWN_FIELDS.find((field) => field.toLowerCase() === trimmed.toLowerCase());
+  if (caseInsensitive) return { target: caseInsensitive, message: `Matched to ${caseInsensitive}` };
+
+  return { target: null, message: "Not a recognised field; column will be ignored" };
+}
+
+/** Find the first bad value in a column and describe it, or return undefined */
+function checkValues(rows: string[][], index: number, field: string): string | undefined {
+  const kind = kindOf(field);
+  const allowed = allowedValues(field);
+  let bad = 0;
+  let first: { row: number; value: string } | undefined;
+
+  rows.forEach((row, r) => {
+    const value = (row[index] ?? "").trim();
+    if (value === "") return;
+    const valid = kind === "number" ? Number.isFinite(Number(value)) : !allowed || allowed.includes(value);
+    if (!valid) {
+      bad++;
+      first ??= { row: r + 1, value };
+    }
+  });
+
+  if (!first) return undefined;
+  const expected = kind === "number" ? "not a number" : "not an allowed value";
+  return `${bad} value(s) ${expected}, first "${first.value}" in row ${first.row}`;
+}
+
+/**
+ * Validate the uploaded columns before anything is scored: unknown headers,
+ * duplicate targets, malformed values and uncovered required fields are all
+ * reported per column.
+ */
+export function mapColumns(headers: string[], rows: string[][]): MappingReport {
+  const seen = new Map<string, number>();
+
+  const columns = headers.map((header, index): ColumnMapping => {
+    const { target, message } = resolveHeader(header);
+    if (!target) return { index, header, target, status: "ignored", message };
+
+    if (seen.has(target)) {
+      return { index, header, target, status: "error", message: `Duplicate of column ${seen.get(target)! + 1}` };
+    }
+    seen.set(target, index);
+
+    const valueError = checkValues(rows, index, target);
+    if (valueError) return { index, header, target, status: "error", message: valueError };
+
+    return { index, header, target, status: "mapped", message };
+  });
+
+  const missingFields = Object.entries(FRIENDLY_FIELDS)
+    .filter(([field, { source }]) => !seen.has(field) && !seen.has(source))
+    .map(([field]) => field);
+
+  return {
+    columns,
+    missingFields,
+    canScore: missingFields.length === 0 && columns.every((c) => c.status !== "error"),
+  };
+}
+
+/**
+ * Build one predict-risk record from a CSV row. Empty cells are left out so
+ * the function imputes them.
+ */
+export function buildRecord(row: string[], columns: ColumnMapping[]): Record<string, number | string> {
+  const record: Record<string, number | string> = {};
+
+  for (const { index, target, status } of columns) {
+    if (status !== "mapped" || !target) continue;
+    const value = (row[index] ?? "").trim();
+    if (value === "") continue;
+    record[target] = kindOf(target) === "number" ? Number(value) : value;
+  }
+
+  for (const [field, { source, fromSource }] of Object.entries(FRIENDLY_FIELDS)) {
+    if (field in record || !(source in record)) continue;
+    const value = record[source];
+    record[field] = fromSource && typeof value === "number" ? fromSource(value) : value;
+  }
+
+  return record;
+}
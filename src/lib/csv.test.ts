@@ -0,0 +1,27 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { parseCsv, toCsv } from "./csv.ts";
+
+Deno.test("quoted fields keep their commas, quotes and newlines", () => {
+  const text = 'name,comment\r\n"Doe, J","said ""hi""\nthen left"\n\n';
+  assertEquals(parseCsv(text), [
+    ["name", "comment"],
+    ["Doe, J", 'said "hi"\nthen left'],
+  ]);
+});
+
+Deno.test("written rows read back as they were", () => {
+  const rows = [
+    ["DAYS_BIRTH", "comment"],
+    ["-12000", 'a "quoted", multi\r\nline note'],
+  ];
+  assertEquals(parseCsv(toCsv(rows)), rows);
+});
+
+Deno.test("a cell a spreadsheet would run as a formula is written as text", () => {
+  assertEquals(toCsv([["=SUM(A1)", "@x", "+44 20", "\t=1", "-1+2"]]), "'=SUM(A1),'@x,'+44 20,'\t=1,'-1+2\r\n");
+});
+
+Deno.test("plain numbers, negatives included, are written unchanged", () => {
+  assertEquals(toCsv([["-12000", "+3", "1e5", "-.5", "0.031"]]), "-12000,+3,1e5,-.5,0.031\r\n");
+});
@@ -0,0 +1,64 @@
+/**
+ * Minimal RFC 4180 CSV reader/writer: quoted fields, escaped quotes ("")
+ * and embedded newlines, with either LF or CRLF line endings. Written cells
+ * are guarded against formula injection.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, e.g. a trailing newline
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+const quoteField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Plain numbers, including negatives such as DAYS_BIRTH, are safe to leave as they are
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * Spreadsheets run a cell starting with =, +, - or @ as a formula, and some
+ * skip a leading tab or carriage return first. Such a cell from user input (a
+ * comment, a name) is prefixed with ' to keep it text.
+ */
+const neutraliseFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) && !NUMBER.test(value) ? `'${value}` : value);
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map((cell) => quoteField(neutraliseFormula(cell))).join(",")).join("\r\n") + "\r\n";
+}
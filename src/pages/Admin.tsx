@@ -0,0 +1,141 @@
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Users } from "lucide-react";
+import UserMenu from "@/components/UserMenu";
+import BucketSchemeSettings from "@/components/BucketSchemeSettings";
+import ModelRoutingSettings from "@/components/ModelRoutingSettings";
+import PricingSettings from "@/components/PricingSettings";
+import BlindScoringSettings from "@/components/BlindScoringSettings";
+import DecisionPolicySettings from "@/components/DecisionPolicySettings";
+import DataRetentionSettings from "@/components/DataRetentionSettings";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { APP_ROLES, type AppRole } from "@shared/roles.ts";
+
+const Admin = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-users"],
+    queryFn: async () => {
+      const [profiles, roles] = await Promise.all([
+        supabase.from("profiles").select("id, email, created_at").order("created_at"),
+        supabase.from("user_roles").select("user_id, role"),
+      ]);
+      if (profiles.error) throw profiles.error;
+      if (roles.error) throw roles.error;
+
+      return profiles.data.map((profile) => ({
+        ...profile,
+        roles: roles.data.filter((r) => r.user_id === profile.id).map((r) => r.role),
+      }));
+    },
+  });
+
+  const toggleRole = useMutation({
+    mutationFn: async ({ userId, role, granted }: { userId: string; role: AppRole; granted: boolean }) => {
+      const { error } = granted
+        ? await supabase.from("user_roles").insert({ user_id: userId, role })
+        : await supabase.from("user_roles").delete().eq("user_id", userId).eq("role", role);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["admin-users"] }),
+    onError: (error) => {
+      toast({
+        title: "Role Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Administration</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-6xl space-y-8">
+        <Card className="border-gradient">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5 text-primary" />
+              User Roles
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <p className="text-destructive">
+                Failed to load users: {error instanceof Error ? error.message : "Unknown error"}
+              </p>
+            ) : isLoading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Joined</TableHead>
+                    {APP_ROLES.map((role) => (
+                      <TableHead key={role} className="capitalize">{role}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.map((profile) => (
+                    <TableRow key={profile.id}>
+                      <TableCell>{profile.email}</TableCell>
+                      <TableCell>{format(new Date(profile.created_at), "dd MMM yyyy")}</TableCell>
+                      {APP_ROLES.map((role) => (
+                        <TableCell key={role}>
+                          <Switch
+                            checked={profile.roles.includes(role)}
+                            // Admins cannot revoke their own admin role and lock everyone out
+                            disabled={toggleRole.isPending || (role === "admin" && profile.id === user?.id)}
+                            onCheckedChange={(granted) => toggleRole.mutate({ userId: profile.id, role, granted })}
+                            aria-label={`${role} role for ${profile.email}`}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <ModelRoutingSettings />
+
+        <BucketSchemeSettings />
+
+        <PricingSettings />
+
+        <BlindScoringSettings />
+
+        <DecisionPolicySettings />
+
+        <DataRetentionSettings />
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,359 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import AuditEntryDialog, { type AuditEntry } from "@/components/AuditEntryDialog";
+import UserMenu from "@/components/UserMenu";
+import { ArrowLeft, CalendarIcon, Download, ScrollText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { toCsv } from "@/lib/csv";
+
+const PAGE_SIZE = 50;
+// Rows fetched per request when exporting; the API caps responses at 1000
+const EXPORT_CHUNK_SIZE = 1000;
+const EXPORT_LIMIT = 50_000;
+
+const COLUMNS = "id, occurred_at, actor_id, actor_email, action, resource, resource_id, client, details, changes";
+
+const ACTIONS: { value: string; label: string }[] = [
+  { value: "prediction.score", label: "Score one applicant" },
+  { value: "prediction.scenario", label: "What-if scenario" },
+  { value: "prediction.batch", label: "Batch scoring" },
+  { value: "review.decide", label: "Review decision" },
+  { value: "applicant_data.read", label: "Applicant data read" },
+  { value: "bucket_scheme.create", label: "Bucket scheme created" },
+  { value: "bucket_scheme.activate", label: "Bucket scheme activated" },
+  { value: "model_routing.update", label: "Model routing changed" },
+  { value: "pricing.update", label: "Pricing changed" },
+  { value: "blind_scoring.update", label: "Blind scoring changed" },
+  { value: "decision_policy.create", label: "Decision policy created" },
+  { value: "decision_policy.activate", label: "Decision policy activated" },
+  { value: "retention.update", label: "Retention changed" },
+  { value: "retention.purge", label: "Applicant data purged" },
+  { value: "fairness.update", label: "Fairness thresholds changed" },
+  { value: "role.grant", label: "Role granted" },
+  { value: "role.revoke", label: "Role revoked" },
+];
+
+interface Filters {
+  action: string;
+  search: string;
+  range: DateRange | undefined;
+}
+
+/**
+ * The audit log narrowed by the filters. Search matches the actor's email or
+ * the resource id by substring, or a scoring call's input hash exactly.
+ */
+function filteredAuditLog({ action, search, range }: Filters, count?: "exact") {
+  let query = supabase.from("audit_log").select(COLUMNS, count ? { count } : undefined);
+
+  if (action !== "all") query = query.eq("action", action);
+  // Commas and parentheses would break the or() filter syntax
+  const term = search.trim().replace(/[,()]/g, "");
+  if (term) {
+    query = query.or(`actor_email.ilike.*${term}*,resource_id.ilike.*${term}*,details->>input_hash.eq.${term}`);
+  }
+  if (range?.from) query = query.gte("occurred_at", startOfDay(range.from).toISOString());
+  if (range?.to ?? range?.from) {
+    query = query.lt("occurred_at", addDays(startOfDay(range.to ?? range.from), 1).toISOString());
+  }
+  return query;
+}
+
+/** A one-line description of what an entry recorded */
+function summarize(entry: AuditEntry): string {
+  const details = (entry.details ?? {}) as Record<string, unknown>;
+  const changes = (entry.changes ?? []) as unknown[];
+  if (entry.action === "prediction.batch") {
+    const summary = details.summary as { total: number; scored: number; failed: number } | undefined;
+    return summary ? `${summary.scored} of ${summary.total} scored` : "";
+  }
+  if (entry.action.startsWith("prediction.")) {
+    return `${((details.probability as number) * 100).toFixed(1)}% · ${details.bucket} · ${details.decision} (${details.model_version})`;
+  }
+  if (entry.action === "review.decide") return `${details.decision}${details.override ? " (override)" : ""}`;
+  if (entry.action.startsWith("role.")) return String(details.role);
+  if (entry.action === "applicant_data.read") return `${(details.prediction_ids as unknown[]).length} predictions`;
+  if (entry.action === "retention.purge") return `${details.purged} purged (${details.retention_days} days)`;
+  return `${changes.length} field${changes.length === 1 ? "" : "s"} changed`;
+}
+
+const Audit = () => {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<Filters>({ action: "all", search: "", range: undefined });
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["audit-log", filters.action, filters.search, filters.range?.from?.toISOString(), filters.range?.to?.toISOString(), page],
+    queryFn: async () => {
+      const { data, count, error } = await filteredAuditLog(filters, "exact")
+        .order("occurred_at", { ascending: false })
+        .order("id", { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+      return { rows: data as AuditEntry[], count: count ?? 0 };
+    },
+  });
+
+  const updateFilters = (patch: Partial<Filters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const rows: AuditEntry[] = [];
+      for (let offset = 0; offset < EXPORT_LIMIT; offset += EXPORT_CHUNK_SIZE) {
+        const { data, error } = await filteredAuditLog(filters)
+          .order("occurred_at", { ascending: false })
+          .order("id", { ascending: false })
+          .range(offset, offset + EXPORT_CHUNK_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data as AuditEntry[]));
+        if (data.length < EXPORT_CHUNK_SIZE) break;
+      }
+
+      const csv = toCsv([
+        ["id", "occurred_at", "actor_email", "actor_id", "action", "resource", "resource_id", "ip", "user_agent", "client_info", "details", "changes"],
+        ...rows.map((row) => {
+          const client = (row.client ?? {}) as Record<string, string | null>;
+          return [
+            String(row.id),
+            row.occurred_at,
+            row.actor_email ?? "",
+            row.actor_id ?? "",
+            row.action,
+            row.resource,
+            row.resource_id ?? "",
+            client.ip ?? "",
+            client.user_agent ?? "",
+            client.client_info ?? "",
+            JSON.stringify(row.details),
+            row.changes === null ? "" : JSON.stringify(row.changes),
+          ];
+        }),
+      ]);
+
+      const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit_log_${format(new Date(), "yyyyMMdd_HHmm")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (rows.length >= EXPORT_LIMIT) {
+        toast({
+          title: "Export Truncated",
+          description: `Only the newest ${EXPORT_LIMIT.toLocaleString()} entries were exported. Narrow the date range to export the rest.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const pageCount = data ? Math.ceil(data.count / PAGE_SIZE) : 0;
+  const { range } = filters;
+  const rangeLabel = range?.from
+    ? range.to
+      ? `${format(range.from, "dd MMM yyyy")} – ${format(range.to, "dd MMM yyyy")}`
+      : format(range.from, "dd MMM yyyy")
+    : "Any date";
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Audit Log</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-7xl space-y-8">
+        {/* Filters */}
+        <Card className="border-gradient">
+          <CardContent className="pt-6 flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="action">Action</Label>
+              <Select value={filters.action} onValueChange={(action) => updateFilters({ action })}>
+                <SelectTrigger id="action" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {ACTIONS.map((action) => (
+                    <SelectItem key={action.value} value={action.value}>
+                      {action.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="search">Search</Label>
+              <Input
+                id="search"
+                className="w-72"
+                placeholder="Email, resource id or input hash"
+                value={filters.search}
+                onChange={(e) => updateFilters({ search: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Date Range</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-64 justify-start font-normal">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={(selected) => updateFilters({ range: selected })}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            {(filters.action !== "all" || filters.search || range) && (
+              <Button variant="ghost" onClick={() => updateFilters({ action: "all", search: "", range: undefined })}>
+                Clear filters
+              </Button>
+            )}
+
+            <Button variant="outline" className="ml-auto" onClick={handleExport} disabled={exporting || !data?.count}>
+              <Download className="w-4 h-4 mr-2" />
+              {exporting ? "Exporting..." : "Export CSV"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card className="border-gradient">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScrollText className="w-5 h-5 text-primary" />
+              {data ? `${data.count} Entries` : "Entries"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error ? (
+              <p className="text-destructive">
+                Failed to load the audit log: {error instanceof Error ? error.message : "Unknown error"}
+              </p>
+            ) : isLoading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : data.rows.length === 0 ? (
+              <p className="text-muted-foreground">No audit entries match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Resource</TableHead>
+                    <TableHead>Summary</TableHead>
+                    <TableHead>IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.rows.map((row) => (
+                    <TableRow key={row.id} className="cursor-pointer" onClick={() => setSelected(row)}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(row.occurred_at), "dd MMM yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>{row.actor_email ?? "—"}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.action}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {row.resource}
+                        {row.resource_id && <div className="text-muted-foreground truncate max-w-40">{row.resource_id}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">{summarize(row)}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {((row.client ?? {}) as Record<string, string | null>).ip ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage((p) => Math.max(0, p - 1));
+                      }}
+                    />
+                  </PaginationItem>
+                  <PaginationItem className="px-4 text-sm text-muted-foreground">
+                    Page {page + 1} of {pageCount}
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage((p) => Math.min(pageCount - 1, p + 1));
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AuditEntryDialog entry={selected} onClose={() => setSelected(null)} />
+    </div>
+  );
+};
+
+export default Audit;
@@ -0,0 +1,389 @@
+import { useState, type DragEvent } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import UserMenu from "@/components/UserMenu";
+import { ArrowLeft, Download, FileSpreadsheet, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { buildRecord, mapColumns, type MappingReport } from "@/lib/batchMapping";
+import type { FieldIssue } from "@shared/applicantSchema.ts";
+
+interface RowResult {
+  probability?: number;
+  bucket?: string;
+  bucketSchemeId?: string;
+  modelVersion?: string;
+  reasonCodes?: string[];
+  expectedLoss?: number;
+  suggestedRate?: number | null;
+  decision?: string;
+  error?: string;
+  /** The request carrying the row failed, so nothing was stored for it and it can be sent again */
+  unscored?: boolean;
+}
+
+interface UploadedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+  mapping: MappingReport;
+}
+
+// Records per predict-risk call; keeps each request well under the function's limits
+const CHUNK_SIZE = 500;
+const PAGE_SIZE = 25;
+
+const formatRowError = (row: { error: string; fields?: FieldIssue[] }) =>
+  row.fields?.length ? row.fields.map((f) => `${f.field}: ${f.message}`).join("; ") : row.error;
+
+/** 1-based row numbers as ranges, e.g. "1–500, 1001–1200" */
+function formatRowRanges(indices: number[]): string {
+  const ranges: [number, number][] = [];
+  for (const index of indices) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === index) last[1] = index + 1;
+    else ranges.push([index + 1, index + 1]);
+  }
+  return ranges.map(([from, to]) => (from === to ? `${from}` : `${from}–${to}`)).join(", ");
+}
+
+const Batch = () => {
+  const { toast } = useToast();
+  const { findBucket } = useBucketSchemes();
+  const [file, setFile] = useState<UploadedFile | null>(null);
+  const [results, setResults] = useState<RowResult[] | null>(null);
+  const [scoring, setScoring] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [page, setPage] = useState(0);
+  const [dragging, setDragging] = useState(false);
+
+  const loadFile = async (selected: File) => {
+    const [headers, ...rows] = parseCsv(await selected.text());
+    if (!headers || rows.length === 0) {
+      toast({
+        title: "Empty File",
+        description: "The CSV needs a header row and at least one data row.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFile({ name: selected.name, headers, rows, mapping: mapColumns(headers, rows) });
+    setResults(null);
+    setPage(0);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) loadFile(dropped);
+  };
+
+  // Rows whose request failed; scoring again sends only these, so stored rows are not duplicated
+  const unscored = results ? results.flatMap((r, i) => (r.unscored ? [i] : [])) : [];
+
+  const handleScore = async () => {
+    if (!file) return;
+
+    setScoring(true);
+    setProgress(0);
+
+    const records = file.rows.map((row) => buildRecord(row, file.mapping.columns));
+    const pending = unscored.length > 0 ? unscored : records.map((_, i) => i);
+    const scored: RowResult[] = unscored.length > 0 && results ? [...results] : [];
+    const failed: number[] = [];
+    let failure = "";
+
+    try {
+      for (let offset = 0; offset < pending.length; offset += CHUNK_SIZE) {
+        const chunk = pending.slice(offset, offset + CHUNK_SIZE);
+        const { data, error } = await supabase.functions.invoke("predict-risk", {
+          body: { records: chunk.map((i) => records[i]) },
+        });
+
+        if (error) {
+          // Keep what earlier chunks scored and carry on; only this chunk's rows are marked for retry
+          console.error("Batch scoring error:", error);
+          failure = error.message || "Batch scoring failed";
+          for (const i of chunk) scored[i] = { error: `Not scored: ${failure}`, unscored: true };
+          failed.push(...chunk);
+        } else {
+          for (const row of data.results) {
+            scored[chunk[row.index]] = "error" in row
+              ? { error: formatRowError(row) }
+              : {
+                  probability: row.probability,
+                  bucket: row.bucket,
+                  bucketSchemeId: row.bucket_scheme_id,
+                  modelVersion: row.model_version,
+                  reasonCodes: row.reason_codes.map((r: { code: string }) => r.code),
+                  expectedLoss: row.pricing.expected_loss,
+                  suggestedRate: row.pricing.suggested_rate,
+                  decision: row.decision.outcome,
+                };
+          }
+        }
+        setProgress(Math.min(100, ((offset + CHUNK_SIZE) / pending.length) * 100));
+      }
+
+      setResults(scored);
+      setPage(0);
+
+      const errors = scored.filter((r) => r.error).length;
+      if (failed.length > 0) {
+        toast({
+          title: "Batch Partly Scored",
+          description: `${scored.length - errors} of ${scored.length} rows scored. Rows ${formatRowRanges(failed)} were not scored (${failure}); score again to retry just those rows.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Batch Scored",
+          description: `${scored.length - errors} of ${scored.length} rows scored${errors ? `, ${errors} failed` : ""}.`,
+        });
+      }
+    } catch (error) {
+      console.error("Batch scoring error:", error);
+      toast({
+        title: "Batch Scoring Failed",
+        description: error instanceof Error ? error.message : "Failed to process batch request",
+        variant: "destructive",
+      });
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!file || !results) return;
+
+    const csv = toCsv([
+      [...file.headers, "probability", "bucket", "reason_codes", "model_version", "expected_loss", "suggested_rate", "decision", "error"],
+      ...file.rows.map((row, i) => [
+        ...row,
+        results[i]?.probability?.toString() ?? "",
+        results[i]?.bucket ?? "",
+        results[i]?.reasonCodes?.join(" ") ?? "",
+        results[i]?.modelVersion ?? "",
+        results[i]?.expectedLoss?.toString() ?? "",
+        results[i]?.suggestedRate?.toString() ?? "",
+        results[i]?.decision ?? "",
+        results[i]?.error ?? "",
+      ]),
+    ]);
+
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = file.name.replace(/\.csv$/i, "") + "_scored.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const pageCount = results ? Math.ceil(results.length / PAGE_SIZE) : 0;
+  const pageRows = results ? results.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Batch Scoring</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-7xl space-y-8">
+        {/* Upload Section */}
+        <Card className="border-gradient">
+          <CardHeader>
+            <CardTitle className="text-2xl text-gradient">Upload Portfolio</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <label
+              htmlFor="csvFile"
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={handleDrop}
+              className={`flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-12 cursor-pointer transition-colors ${
+                dragging ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+              }`}
+            >
+              <Upload className="w-10 h-10 text-primary" />
+              <span className="font-semibold">{file ? file.name : "Drop a CSV file here or click to browse"}</span>
+              <span className="text-sm text-muted-foreground">
+                Use Home Credit column names (e.g. AMT_INCOME_TOTAL) or the friendly fields (e.g. annual_income)
+              </span>
+              <input
+                id="csvFile"
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+              />
+            </label>
+          </CardContent>
+        </Card>
+
+        {/* Column Mapping Section */}
+        {file && (
+          <Card className="border-gradient">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSpreadsheet className="w-5 h-5 text-primary" />
+                Column Mapping ({file.rows.length} rows)
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Maps To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {file.mapping.columns.map((column) => (
+                    <TableRow key={column.index}>
+                      <TableCell className="font-mono">{column.header}</TableCell>
+                      <TableCell className="font-mono">{column.target ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            column.status === "error" ? "destructive" : column.status === "ignored" ? "outline" : "secondary"
+                          }
+                        >
+                          {column.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{column.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {file.mapping.missingFields.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Missing required fields: {file.mapping.missingFields.join(", ")}
+                </p>
+              )}
+
+              {scoring && <Progress value={progress} className="h-2" />}
+
+              <Button
+                variant="hero"
+                size="lg"
+                className="w-full text-lg"
+                onClick={handleScore}
+                disabled={!file.mapping.canScore || scoring}
+              >
+                {scoring
+                  ? "Scoring..."
+                  : unscored.length > 0
+                    ? `Retry ${unscored.length} Unscored Rows`
+                    : `Score ${file.rows.length} Rows`}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Results Section */}
+        {results && (
+          <Card className="border-gradient">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Results</CardTitle>
+              <Button variant="outline" onClick={handleDownload}>
+                <Download className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Probability</TableHead>
+                    <TableHead>Bucket</TableHead>
+                    <TableHead>Reasons</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pageRows.map((row, i) => (
+                    <TableRow key={page * PAGE_SIZE + i}>
+                      <TableCell>{page * PAGE_SIZE + i + 1}</TableCell>
+                      <TableCell>{row.probability !== undefined ? `${(row.probability * 100).toFixed(1)}%` : "—"}</TableCell>
+                      <TableCell
+                        className="font-bold"
+                        style={{ color: row.bucket ? findBucket(row.bucket, row.bucketSchemeId)?.color : undefined }}
+                      >
+                        {row.bucket ?? "—"}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{row.reasonCodes?.join(", ")}</TableCell>
+                      <TableCell className="text-destructive text-sm">{row.error}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {pageCount > 1 && (
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setPage((p) => Math.max(0, p - 1));
+                        }}
+                      />
+                    </PaginationItem>
+                    <PaginationItem className="px-4 text-sm text-muted-foreground">
+                      Page {page + 1} of {pageCount}
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setPage((p) => Math.min(pageCount - 1, p + 1));
+                        }}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, parseISO, startOfDay, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import UserMenu from "@/components/UserMenu";
+import { ArrowLeft, BarChart3, CalendarIcon, Layers, PieChart, TrendingUp } from "lucide-react";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import { CONTRACT_TYPES } from "@shared/applicantSchema.ts";
+import type { Breakdown, BreakdownReport, Granularity, PortfolioReport } from "@shared/portfolio.ts";
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+const BREAKDOWN_LABELS: Record<Breakdown, string> = {
+  contract_type: "Product",
+  education: "Education",
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/** Periods are UTC dates; parsing them as local dates keeps the label on the same day */
+const formatPeriod = (period: string, granularity: Granularity) =>
+  granularity === "week" ? `w/c ${format(parseISO(period), "dd MMM")}` : format(parseISO(period), "dd MMM");
+
+const volumeConfig = {
+  count: { label: "Predictions", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const meanPdConfig = {
+  mean_pd: { label: "Mean PD", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const BreakdownCard = ({ breakdown, report }: { breakdown: Breakdown; report: BreakdownReport }) => (
+  <Card className="border-gradient">
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <PieChart className="w-5 h-5 text-primary" />
+        By {BREAKDOWN_LABELS[breakdown]}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {report.segments.length === 0 ? (
+        <p className="text-muted-foreground">No predictions with this attribute in the period.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{BREAKDOWN_LABELS[breakdown]}</TableHead>
+              <TableHead className="text-right">Predictions</TableHead>
+              <TableHead className="text-right">Share</TableHead>
+              <TableHead className="text-right">Mean PD</TableHead>
+              <TableHead className="text-right">Approval Rate</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.segments.map((s) => (
+              <TableRow key={s.segment}>
+                <TableCell className="font-medium">{s.segment}</TableCell>
+                <TableCell className="text-right font-mono">{s.count.toLocaleString()}</TableCell>
+                <TableCell className="text-right font-mono">{formatPercent(s.share)}</TableCell>
+                <TableCell className="text-right font-mono">{formatPercent(s.mean_pd)}</TableCell>
+                <TableCell className="text-right font-mono">{formatPercent(s.approval_rate)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {report.unknown > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {report.unknown.toLocaleString()} predictions without a recorded {BREAKDOWN_LABELS[breakdown].toLowerCase()}, such as
+          those whose applicant data has been purged, are not included.
+        </p>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const Dashboard = () => {
+  const { findBucket } = useBucketSchemes();
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: subDays(new Date(), DEFAULT_PERIOD_DAYS - 1),
+    to: new Date(),
+  }));
+  const [contractType, setContractType] = useState("all");
+  const [granularity, setGranularity] = useState<Granularity>("day");
+
+  const from = range?.from ? startOfDay(range.from).toISOString() : undefined;
+  const to = range?.from ? addDays(startOfDay(range.to ?? range.from), 1).toISOString() : undefined;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["portfolio-analytics", from, to, contractType, granularity],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<PortfolioReport>("portfolio-analytics", {
+        body: { from, to, contract_type: contractType === "all" ? null : contractType, granularity },
+      });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  const rangeLabel = range?.from
+    ? range.to
+      ? `${format(range.from, "dd MMM yyyy")} – ${format(range.to, "dd MMM yyyy")}`
+      : format(range.from, "dd MMM yyyy")
+    : `Last ${DEFAULT_PERIOD_DAYS} days`;
+
+  const bucketConfig = Object.fromEntries(
+    (data?.buckets ?? []).map((bucket) => [
+      bucket,
+      { label: `Bucket ${bucket}`, color: findBucket(bucket)?.color ?? "hsl(var(--muted-foreground))" },
+    ]),
+  ) satisfies ChartConfig;
+
+  const chartData = (data?.series ?? []).map((p) => ({
+    period: formatPeriod(p.period, data!.granularity),
+    count: p.count,
+    mean_pd: p.mean_pd,
+    ...p.buckets,
+  }));
+
+  const summary = data
+    ? [
+        { label: "Predictions", value: data.total.toLocaleString() },
+        { label: "Mean PD", value: data.mean_pd === null ? "—" : formatPercent(data.mean_pd) },
+        { label: "Approval Rate", value: data.approval_rate === null ? "—" : formatPercent(data.approval_rate) },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Portfolio Dashboard</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-7xl space-y-8">
+        {/* Filters */}
+        <Card className="border-gradient">
+          <CardContent className="pt-6 flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-64 justify-start font-normal">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contract-type">Product</Label>
+              <Select value={contractType} onValueChange={setContractType}>
+                <SelectTrigger id="contract-type" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All products</SelectItem>
+                  {CONTRACT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="granularity">Group by</Label>
+              <Select value={granularity} onValueChange={(value) => setGranularity(value as Granularity)}>
+                <SelectTrigger id="granularity" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Day</SelectItem>
+                  <SelectItem value="week">Week</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error ? (
+          <p className="text-destructive">
+            Failed to load portfolio analytics: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid gap-4 md:grid-cols-3">
+              {summary.map(({ label, value }) => (
+                <Card key={label} className="border-gradient">
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">{label}</p>
+                    <p className="text-3xl font-bold font-mono">{value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            {data.truncated && (
+              <p className="text-sm text-muted-foreground">
+                The period holds more predictions than one report reads; only the earliest are included. Narrow the
+                period to cover the rest.
+              </p>
+            )}
+
+            <Card className="border-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="w-5 h-5 text-primary" />
+                  Volume
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={volumeConfig} className="h-64 w-full">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} minTickGap={16} />
+                    <YAxis allowDecimals={false} width={48} />
+                    <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="border-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Layers className="w-5 h-5 text-primary" />
+                  Bucket Mix
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {data.buckets.length === 0 ? (
+                  <p className="text-muted-foreground">No predictions in the period.</p>
+                ) : (
+                  <ChartContainer config={bucketConfig} className="h-64 w-full">
+                    <BarChart data={chartData} stackOffset="expand">
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="period" tickLine={false} minTickGap={16} />
+                      <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} width={48} />
+                      <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                      {data.buckets.map((bucket) => (
+                        <Bar key={bucket} dataKey={bucket} stackId="buckets" fill={`var(--color-${bucket})`} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="w-5 h-5 text-primary" />
+                  Mean PD
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={meanPdConfig} className="h-64 w-full">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} minTickGap={16} />
+                    <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} width={48} />
+                    <ChartTooltip
+                      cursor={false}
+                      content={<ChartTooltipContent formatter={(value) => `Mean PD: ${formatPercent(value as number)}`} />}
+                    />
+                    <Line dataKey="mean_pd" stroke="var(--color-mean_pd)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Periods are UTC {data.granularity === "week" ? "weeks starting on Monday" : "days"}; periods without
+                  predictions leave a gap.
+                </p>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-8 lg:grid-cols-2">
+              {(Object.keys(BREAKDOWN_LABELS) as Breakdown[]).map((breakdown) => (
+                <BreakdownCard key={breakdown} breakdown={breakdown} report={data.breakdowns[breakdown]} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import UserMenu from "@/components/UserMenu";
+import { Activity, AlertTriangle, ArrowLeft, CalendarIcon, CheckCircle2, Gauge } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { MIN_DRIFT_SAMPLE, PSI_THRESHOLDS, type DistributionDrift, type DriftReport, type DriftStatus } from "@shared/drift.ts";
+import { MODEL_SUMMARIES } from "@shared/modelCatalog.ts";
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+const STATUS_BADGES: Record<DriftStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  significant: { label: "Significant", variant: "destructive" },
+  moderate: { label: "Moderate", variant: "default" },
+  stable: { label: "Stable", variant: "secondary" },
+  insufficient: { label: "Too few", variant: "outline" },
+};
+
+const chartConfig = {
+  expected: { label: "Reference", color: "hsl(var(--muted-foreground))" },
+  actual: { label: "Recent", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const StatusBadge = ({ status }: { status: DriftStatus }) => (
+  <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+);
+
+/** Reference and recent shares per bin, side by side */
+const DistributionChart = ({ drift }: { drift: DistributionDrift }) => (
+  <ChartContainer config={chartConfig} className="h-64 w-full">
+    <BarChart data={drift.bins}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="label" tickLine={false} interval={0} angle={-30} textAnchor="end" height={64} fontSize={11} />
+      <YAxis tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} width={48} />
+      <ChartTooltip
+        cursor={false}
+        content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label}: ${formatPercent(value as number)}`} />}
+      />
+      <ChartLegend content={<ChartLegendContent />} />
+      <Bar dataKey="expected" fill="var(--color-expected)" radius={[4, 4, 0, 0]} />
+      <Bar dataKey="actual" fill="var(--color-actual)" radius={[4, 4, 0, 0]} />
+    </BarChart>
+  </ChartContainer>
+);
+
+const Drift = () => {
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: subDays(new Date(), DEFAULT_PERIOD_DAYS - 1),
+    to: new Date(),
+  }));
+  const [modelVersion, setModelVersion] = useState("champion");
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const from = range?.from ? startOfDay(range.from).toISOString() : undefined;
+  const to = range?.from ? addDays(startOfDay(range.to ?? range.from), 1).toISOString() : undefined;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["model-drift", from, to, modelVersion],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<DriftReport>("model-drift", {
+        body: { from, to, model_version: modelVersion === "champion" ? null : modelVersion },
+      });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  const rangeLabel = range?.from
+    ? range.to
+      ? `${format(range.from, "dd MMM yyyy")} – ${format(range.to, "dd MMM yyyy")}`
+      : format(range.from, "dd MMM yyyy")
+    : `Last ${DEFAULT_PERIOD_DAYS} days`;
+
+  const flagged = data
+    ? [data.score, ...data.features].filter((d) => d.status === "significant" || d.status === "moderate")
+    : [];
+  // Features arrive most drifted first, so the first one is the default to chart
+  const feature = data?.features.find((f) => f.name === selected) ?? data?.features[0];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Model Drift</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-7xl space-y-8">
+        {/* Filters */}
+        <Card className="border-gradient">
+          <CardContent className="pt-6 flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-64 justify-start font-normal">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="model-version">Model version</Label>
+              <Select value={modelVersion} onValueChange={setModelVersion}>
+                <SelectTrigger id="model-version" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="champion">Current champion</SelectItem>
+                  {MODEL_SUMMARIES.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {version.id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {data && (
+              <p className="text-sm text-muted-foreground">
+                {data.total.toLocaleString()} predictions by {data.model_version}, compared with its training data.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {error ? (
+          <p className="text-destructive">
+            Failed to load the drift report: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            {/* Flags */}
+            <Card className="border-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {flagged.length > 0 ? (
+                    <AlertTriangle className="w-5 h-5 text-destructive" />
+                  ) : (
+                    <CheckCircle2 className="w-5 h-5 text-primary" />
+                  )}
+                  {flagged.length > 0 ? `${flagged.length} Flags` : "No Drift"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {flagged.length === 0 ? (
+                  <p className="text-muted-foreground">
+                    Every distribution with at least {MIN_DRIFT_SAMPLE} observations has a PSI below{" "}
+                    {PSI_THRESHOLDS.moderate}.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {flagged.map((d) => (
+                      <li key={d.name} className="flex items-start gap-2 text-sm">
+                        <StatusBadge status={d.status} />
+                        <span>
+                          {d.name === "score" ? "Score" : d.name} has a PSI of {d.psi!.toFixed(3)}.
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  PSI from {PSI_THRESHOLDS.moderate} is flagged as moderate drift, from {PSI_THRESHOLDS.significant} as
+                  significant.
+                </p>
+                {data.truncated && (
+                  <p className="text-sm text-muted-foreground">
+                    The period holds more predictions than one report reads; only the earliest are included. Narrow
+                    the period to cover the rest.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Score */}
+            <Card className="border-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gauge className="w-5 h-5 text-primary" />
+                  Score Stability
+                  <StatusBadge status={data.score.status} />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {data.score.psi === null
+                    ? "No model scores in the period."
+                    : `PSI ${data.score.psi.toFixed(3)} over ${data.score.count.toLocaleString()} model scores.`}{" "}
+                  Scores from the heuristic fallback are not included.
+                </p>
+                <DistributionChart drift={data.score} />
+              </CardContent>
+            </Card>
+
+            {/* Features */}
+            <Card className="border-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="w-5 h-5 text-primary" />
+                  Feature Stability
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Feature</TableHead>
+                      <TableHead className="text-right">Observations</TableHead>
+                      <TableHead className="text-right">CSI</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.features.map((f) => (
+                      <TableRow
+                        key={f.name}
+                        className={`cursor-pointer ${f.name === feature?.name ? "bg-muted/50" : ""}`}
+                        onClick={() => setSelected(f.name)}
+                      >
+                        <TableCell className="font-mono">{f.name}</TableCell>
+                        <TableCell className="text-right font-mono">{f.count.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{f.psi === null ? "—" : f.psi.toFixed(3)}</TableCell>
+                        <TableCell>
+                          <StatusBadge status={f.status} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {feature && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold font-mono">{feature.name}</h3>
+                    <DistributionChart drift={feature} />
+                  </div>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  Features the applicant did not supply, and predictions whose applicant data has been purged, are
+                  left out of the comparison.
+                </p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Drift;
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import FairnessThresholdSettings from "@/components/FairnessThresholdSettings";
+import UserMenu from "@/components/UserMenu";
+import { AlertTriangle, ArrowLeft, CalendarIcon, CheckCircle2, Scale } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { supabase } from "@/integrations/supabase/client";
+import type { DimensionReport, FairnessDimension, FairnessReport } from "@shared/fairness.ts";
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+const DIMENSION_LABELS: Record<FairnessDimension, string> = {
+  gender: "Gender",
+  age_band: "Age Band",
+};
+
+const GROUP_LABELS: Record<string, string> = { M: "Male", F: "Female" };
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const DimensionCard = ({ report, thresholds }: { report: DimensionReport; thresholds: FairnessReport["thresholds"] }) => {
+  const { findBucket } = useBucketSchemes();
+  const buckets = [...new Set(report.groups.flatMap((g) => Object.keys(g.buckets)))].sort();
+  const chartConfig = Object.fromEntries(
+    buckets.map((bucket) => [
+      bucket,
+      { label: `Bucket ${bucket}`, color: findBucket(bucket)?.color ?? "hsl(var(--muted-foreground))" },
+    ]),
+  ) satisfies ChartConfig;
+  const chartData = report.groups.map((g) => ({ group: GROUP_LABELS[g.group] ?? g.group, ...g.buckets }));
+
+  return (
+    <Card className="border-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          By {DIMENSION_LABELS[report.dimension]}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report.groups.length === 0 ? (
+          <p className="text-muted-foreground">No predictions with this attribute in the period.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Group</TableHead>
+                  <TableHead className="text-right">Predictions</TableHead>
+                  <TableHead className="text-right">Approval Rate</TableHead>
+                  <TableHead className="text-right">Mean PD</TableHead>
+                  <TableHead className="text-right">Disparate Impact</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.groups.map((g) => {
+                  const small = g.count < thresholds.min_group_size;
+                  const breach = !small && g.disparate_impact !== null && g.disparate_impact < thresholds.min_disparate_impact;
+                  return (
+                    <TableRow key={g.group} className={small ? "text-muted-foreground" : undefined}>
+                      <TableCell className="font-medium">
+                        {GROUP_LABELS[g.group] ?? g.group}
+                        {g.group === report.reference_group && (
+                          <Badge variant="secondary" className="ml-2">reference</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {g.count.toLocaleString()}
+                        {small && <div className="text-xs">below minimum</div>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatPercent(g.approval_rate)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatPercent(g.mean_pd)}</TableCell>
+                      <TableCell className={`text-right font-mono ${breach ? "text-destructive font-semibold" : ""}`}>
+                        {g.disparate_impact === null ? "—" : g.disparate_impact.toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Bucket distribution</h3>
+              <ChartContainer config={chartConfig} className="w-full" style={{ height: chartData.length * 40 + 40 }}>
+                <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" domain={[0, 1]} tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`} />
+                  <YAxis type="category" dataKey="group" width={80} tickLine={false} />
+                  <ChartTooltip
+                    cursor={false}
+                    content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as string]?.label}: ${formatPercent(value as number)}`} />}
+                  />
+                  {buckets.map((bucket) => (
+                    <Bar key={bucket} dataKey={bucket} stackId="buckets" fill={`var(--color-${bucket})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </>
+        )}
+
+        {report.excluded > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {report.excluded.toLocaleString()} predictions without a recorded {DIMENSION_LABELS[report.dimension].toLowerCase()} are
+            not included.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Fairness = () => {
+  const { can } = useAuth();
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: subDays(new Date(), DEFAULT_PERIOD_DAYS - 1),
+    to: new Date(),
+  }));
+
+  const from = range?.from ? startOfDay(range.from).toISOString() : undefined;
+  const to = range?.from ? addDays(startOfDay(range.to ?? range.from), 1).toISOString() : undefined;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["fairness-report", from, to],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<FairnessReport>("fairness-report", {
+        body: { from, to },
+      });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  const rangeLabel = range?.from
+    ? range.to
+      ? `${format(range.from, "dd MMM yyyy")} – ${format(range.to, "dd MMM yyyy")}`
+      : format(range.from, "dd MMM yyyy")
+    : `Last ${DEFAULT_PERIOD_DAYS} days`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Fairness Monitoring</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-7xl space-y-8">
+        {/* Period */}
+        <Card className="border-gradient">
+          <CardContent className="pt-6 flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-64 justify-start font-normal">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            {data && (
+              <p className="text-sm text-muted-foreground">
+                {data.total.toLocaleString()} predictions with applicant data. Approval counts a reviewer's decision
+                where a referral was reviewed.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {error ? (
+          <p className="text-destructive">
+            Failed to load the fairness report: {error instanceof Error ? error.message : "Unknown error"}
+          </p>
+        ) : isLoading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            {/* Alerts */}
+            <Card className="border-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {data.alerts.length > 0 ? (
+                    <AlertTriangle className="w-5 h-5 text-destructive" />
+                  ) : (
+                    <CheckCircle2 className="w-5 h-5 text-primary" />
+                  )}
+                  {data.alerts.length > 0 ? `${data.alerts.length} Alerts` : "No Alerts"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {data.alerts.length === 0 ? (
+                  <p className="text-muted-foreground">
+                    Every group of at least {data.thresholds.min_group_size} predictions is within the thresholds.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {data.alerts.map((alert, i) => (
+                      <li key={i} className="flex items-start gap-2 text-sm">
+                        <Badge variant="destructive">{DIMENSION_LABELS[alert.dimension]}</Badge>
+                        <span>{alert.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {data.truncated && (
+                  <p className="text-sm text-muted-foreground">
+                    The period holds more predictions than one report reads; only the earliest are included. Narrow
+                    the period to cover the rest.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {data.dimensions.map((report) => (
+              <DimensionCard key={report.dimension} report={report} thresholds={data.thresholds} />
+            ))}
+          </>
+        )}
+
+        {can("manageConfig") && <FairnessThresholdSettings />}
+      </div>
+    </div>
+  );
+};
+
+export default Fairness;
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import UserMenu from "@/components/UserMenu";
+import { ArrowLeft, CalendarIcon, History as HistoryIcon } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useApplicantData } from "@/hooks/use-applicant-data";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+
+const PAGE_SIZE = 25;
+
+const formatAmount = (value: unknown) => (typeof value === "number" ? `₹${value.toLocaleString()}` : "—");
+
+const History = () => {
+  const [bucket, setBucket] = useState("all");
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [page, setPage] = useState(0);
+  const { active: bucketScheme, findBucket } = useBucketSchemes();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["predictions", bucket, range?.from?.toISOString(), range?.to?.toISOString(), page],
+    queryFn: async () => {
+      let query = supabase
+        .from("predictions")
+        .select("id, created_at, probability, bucket, bucket_scheme_id, model_version, model_role, engine, engine_version, reason_codes", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (bucket !== "all") query = query.eq("bucket", bucket);
+      if (range?.from) query = query.gte("created_at", startOfDay(range.from).toISOString());
+      if (range?.to ?? range?.from) {
+        query = query.lt("created_at", addDays(startOfDay(range.to ?? range.from), 1).toISOString());
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+      return { rows: data, count: count ?? 0 };
+    },
+  });
+
+  // Income and credit amount are encrypted at rest
+  const { byId: applicants } = useApplicantData(data?.rows.map((row) => row.id) ?? []);
+
+  const pageCount = data ? Math.ceil(data.count / PAGE_SIZE) : 0;
+
+  const rangeLabel = range?.from
+    ? range.to
+      ? `${format(range.from, "dd MMM yyyy")} – ${format(range.to, "dd MMM yyyy")}`
+      : format(range.from, "dd MMM yyyy")
+    : "Any date";
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Prediction History</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-7xl space-y-8">
+        {/* Filters */}
+        <Card className="border-gradient">
+          <CardContent className="pt-6 flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="bucket">Bucket</Label>
+              <Select
+                value={bucket}
+                onValueChange={(value) => {
+                  setBucket(value);
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger id="bucket" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All buckets</SelectItem>
+                  {bucketScheme.buckets.map((b) => (
+                    <SelectItem key={b.name} value={b.name}>
+                      {b.name} – {b.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Date Range</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-64 justify-start font-normal">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={(selected) => {
+                      setRange(selected);
+                      setPage(0);
+                    }}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            {(bucket !== "all" || range) && (
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setBucket("all");
+                  setRange(undefined);
+                  setPage(0);
+                }}
+              >
+                Clear filters
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card className="border-gradient">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HistoryIcon className="w-5 h-5 text-primary" />
+              {data ? `${data.count} Predictions` : "Predictions"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error ? (
+              <p className="text-destructive">
+                Failed to load predictions: {error instanceof Error ? error.message : "Unknown error"}
+              </p>
+            ) : isLoading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : data.rows.length === 0 ? (
+              <p className="text-muted-foreground">No predictions match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scored At</TableHead>
+                    <TableHead>Income</TableHead>
+                    <TableHead>Credit</TableHead>
+                    <TableHead>Probability</TableHead>
+                    <TableHead>Bucket</TableHead>
+                    <TableHead>Reasons</TableHead>
+                    <TableHead>Model</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.rows.map((row) => {
+                    const reasons = row.reason_codes as { code: string }[];
+                    return (
+                      <TableRow key={row.id}>
+                        <TableCell>{format(new Date(row.created_at), "dd MMM yyyy HH:mm")}</TableCell>
+                        <TableCell>{formatAmount(applicants.get(row.id)?.input.annual_income)}</TableCell>
+                        <TableCell>{formatAmount(applicants.get(row.id)?.input.credit_amount)}</TableCell>
+                        <TableCell>{(row.probability * 100).toFixed(1)}%</TableCell>
+                        <TableCell
+                          className="font-bold"
+                          style={{ color: findBucket(row.bucket, row.bucket_scheme_id)?.color }}
+                        >
+                          {row.bucket}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{reasons.map((r) => r.code).join(", ")}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {row.model_version} ({row.model_role})
+                          <div>{row.engine}</div>
+                          <div className="font-mono">{row.engine_version}</div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage((p) => Math.max(0, p - 1));
+                      }}
+                    />
+                  </PaginationItem>
+                  <PaginationItem className="px-4 text-sm text-muted-foreground">
+                    Page {page + 1} of {pageCount}
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage((p) => Math.min(pageCount - 1, p + 1));
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default History;
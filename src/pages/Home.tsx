@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import UserMenu from "@/components/UserMenu";
 import heroBg from "@/assets/hero-bg.jpg";
 
 const Home = () => {
@@ -38,6 +39,10 @@ const Home = () => {
           }}
         />
         <div className="absolute inset-0 bg-gradient-to-b from-primary/20 via-background/80 to-background" />
+
+        <div className="absolute top-6 right-6 z-10">
+          <UserMenu />
+        </div>
         
         <div className="relative container mx-auto px-6 py-32 text-center">
           <div className="mb-8 inline-block">
@@ -52,11 +57,23 @@ const Home = () => {
             AI-powered loan default prediction platform leveraging advanced machine learning
           </p>
           
-          <Link to="/predict">
-            <Button variant="hero" size="lg" className="text-lg px-8 py-6 animate-glow">
-              🔮 Try Risk Predictor
-            </Button>
-          </Link>
+          <div className="flex flex-wrap justify-center gap-4">
+            <Link to="/predict">
+              <Button variant="hero" size="lg" className="text-lg px-8 py-6 animate-glow">
+                🔮 Try Risk Predictor
+              </Button>
+            </Link>
+            <Link to="/batch">
+              <Button variant="outline" size="lg" className="text-lg px-8 py-6">
+                📂 Score a Portfolio
+              </Button>
+            </Link>
+            <Link to="/history">
+              <Button variant="outline" size="lg" className="text-lg px-8 py-6">
+                🗂️ View History
+              </Button>
+            </Link>
+          </div>
         </div>
       </section>
 
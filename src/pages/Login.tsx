@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+const Login = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const location = useLocation();
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? "/predict";
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent, mode: "signIn" | "signUp") => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const { error } =
+        mode === "signIn"
+          ? await supabase.auth.signInWithPassword({ email, password })
+          : await supabase.auth.signUp({
+              email,
+              password,
+              options: { emailRedirectTo: `${window.location.origin}/login` },
+            });
+
+      if (error) {
+        throw error;
+      }
+
+      if (mode === "signUp") {
+        toast({
+          title: "Account Created",
+          description: "Confirm your email, then ask an administrator to assign your role.",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: mode === "signIn" ? "Sign In Failed" : "Sign Up Failed",
+        description: error instanceof Error ? error.message : "Authentication failed",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const credentialFields = (prefix: string) => (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${prefix}-email`}>Email</Label>
+        <Input
+          id={`${prefix}-email`}
+          type="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${prefix}-password`}>Password</Label>
+        <Input
+          id={`${prefix}-password`}
+          type="password"
+          autoComplete={prefix === "signin" ? "current-password" : "new-password"}
+          minLength={8}
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <h1 className="text-2xl font-bold text-gradient">Sign In</h1>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-24 max-w-md">
+        <Card className="border-gradient">
+          <CardHeader>
+            <CardTitle className="text-2xl text-gradient">Welcome</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="signin">
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="signin">Sign In</TabsTrigger>
+                <TabsTrigger value="signup">Create Account</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="signin">
+                <form className="space-y-6" onSubmit={(e) => handleSubmit(e, "signIn")}>
+                  {credentialFields("signin")}
+                  <Button type="submit" variant="hero" size="lg" className="w-full" disabled={loading}>
+                    {loading ? "Signing in..." : "Sign In"}
+                  </Button>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="signup">
+                <form className="space-y-6" onSubmit={(e) => handleSubmit(e, "signUp")}>
+                  {credentialFields("signup")}
+                  <Button type="submit" variant="hero" size="lg" className="w-full" disabled={loading}>
+                    {loading ? "Creating account..." : "Create Account"}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
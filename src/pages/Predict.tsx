@@ -6,19 +6,84 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, TrendingUp, AlertCircle } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, TrendingUp, AlertCircle, BarChart3, Route, Calculator, BadgeIndianRupee, Gavel, EyeOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { validateApplicant, type ApplicantData, type FieldIssue, type ProtectedAttribute } from "@shared/applicantSchema.ts";
+import { suppressedFor } from "@shared/blindScoring.ts";
+import ContributionWaterfall from "@/components/ContributionWaterfall";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+import { useBlindScoring } from "@/hooks/use-blind-scoring";
+import { bucketRange } from "@shared/bucketScheme.ts";
+import type { Pricing } from "@shared/pricing.ts";
+import type { Decision, DecisionResult } from "@shared/decisionPolicy.ts";
+import type { Explanation } from "@shared/explanation.ts";
+import UserMenu from "@/components/UserMenu";
+import WhatIfPanel from "@/components/WhatIfPanel";
+import PathToApproval, { type PathToApprovalResult } from "@/components/PathToApproval";
+import RepaymentSummary from "@/components/RepaymentSummary";
+import { amortize, validateLoanTerms, type Amortization, type LoanTerms } from "@/lib/amortization";
+
+interface ReasonCode {
+  code: string;
+  text: string;
+}
 
 interface PredictionResult {
+  /** Validated input that was scored, the baseline for what-if scenarios */
+  input: ApplicantData;
   probability: number;
   riskBucket: string;
+  bucketSchemeId: string;
+  modelVersion: string;
+  modelRole: string;
+  engine: string;
+  engineVersion: string;
+  inputHash: string;
+  imputedFields: string[];
+  suppressedAttributes: ProtectedAttribute[];
+  explanation: Explanation;
+  reasonCodes: ReasonCode[];
+  reasonCatalogueVersion: string;
+  pricing: Pricing;
+  decision: DecisionResult;
+  pathToApproval: PathToApprovalResult | null;
+  /** Loan terms the annuity was calculated from, in affordability mode */
+  repayment: { terms: LoanTerms; amortization: Amortization } | null;
 }
 
+// Form field that edits each request field, for placing inline errors
+const FORM_FIELDS: Record<string, string> = {
+  annual_income: "income",
+  credit_amount: "creditAmount",
+  annuity: "annuity",
+  age: "age",
+  employment_years: "employmentYears",
+  gender: "gender",
+  contract_type: "contractType",
+  education: "education",
+};
+
+const DECISION_STYLES: Record<Decision, { label: string; color: string }> = {
+  approve: { label: "Approve", color: "hsl(var(--risk-a))" },
+  refer: { label: "Refer to Review", color: "hsl(var(--risk-c))" },
+  decline: { label: "Decline", color: "hsl(var(--risk-d))" },
+};
+
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
 const Predict = () => {
   const { toast } = useToast();
+  const { active: bucketScheme, findBucket } = useBucketSchemes();
+  const { config: blindScoring } = useBlindScoring();
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<PredictionResult | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [calculateAnnuity, setCalculateAnnuity] = useState(false);
+  const [blind, setBlind] = useState(false);
+  const [blindAge, setBlindAge] = useState(false);
   
   const [formData, setFormData] = useState({
     income: "",
@@ -29,64 +94,91 @@ const Predict = () => {
     gender: "",
     contractType: "",
     education: "",
+    interestRate: "",
+    termMonths: "",
   });
 
+  // Affordability mode: the annuity follows from amount, rate and term
+  const loanTerms: Partial<LoanTerms> = {
+    principal: toNumber(formData.creditAmount),
+    annualRate: toNumber(formData.interestRate),
+    termMonths: toNumber(formData.termMonths),
+  };
+  const termErrors = validateLoanTerms(loanTerms);
+  const amortization =
+    calculateAnnuity && Object.keys(termErrors).length === 0 && (loanTerms.principal ?? 0) > 0
+      ? amortize(loanTerms as LoanTerms)
+      : null;
+
+  // Blind mode: the request suppresses gender, and age if asked; the product may suppress more
+  const requestedSuppression: ProtectedAttribute[] = blind ? (blindAge ? ["gender", "age"] : ["gender"]) : [];
+  const suppressed = suppressedFor(blindScoring, formData.contractType, requestedSuppression);
+  const productSuppression = suppressedFor(blindScoring, formData.contractType, []);
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: "" }));
   };
 
-  const getRiskColor = (bucket: string) => {
-    switch (bucket) {
-      case "A": return "text-risk-a";
-      case "B": return "text-risk-b";
-      case "C": return "text-risk-c";
-      case "D": return "text-risk-d";
-      default: return "text-foreground";
-    }
+  const showFieldErrors = (issues: FieldIssue[]) => {
+    setErrors(Object.fromEntries(issues.map((issue) => [FORM_FIELDS[issue.field] ?? issue.field, issue.message])));
+    toast({
+      title: "Invalid Information",
+      description: "Please correct the highlighted fields before predicting.",
+      variant: "destructive",
+    });
   };
 
-  const getRiskLabel = (bucket: string) => {
-    switch (bucket) {
-      case "A": return "Low Risk";
-      case "B": return "Moderate Risk";
-      case "C": return "High Risk";
-      case "D": return "Very High Risk";
-      default: return "Unknown";
-    }
-  };
+  const fieldError = (field: string) =>
+    errors[field] ? <p className="text-sm text-destructive">{errors[field]}</p> : null;
+
+  const formatPercent = (value: number) => `${Number((value * 100).toFixed(1))}%`;
+
+  const formatRange = ([lower, upper]: [number, number | null]) =>
+    upper === null ? `${formatPercent(lower)}+` : `${formatPercent(lower)}–${formatPercent(upper)}`;
 
   const handlePredict = async () => {
-    // Validation
-    const requiredFields = Object.entries(formData);
-    const emptyFields = requiredFields.filter(([_, value]) => !value);
-    
-    if (emptyFields.length > 0) {
+    if (calculateAnnuity && Object.keys(termErrors).length > 0) {
+      setErrors(termErrors);
       toast({
-        title: "Missing Information",
-        description: "Please fill in all fields before predicting.",
+        title: "Invalid Loan Terms",
+        description: "Enter an interest rate and term to calculate the annuity.",
         variant: "destructive",
       });
       return;
     }
 
+    // Validation against the same schema the edge function uses
+    const validation = validateApplicant({
+      annual_income: toNumber(formData.income),
+      credit_amount: toNumber(formData.creditAmount),
+      annuity: amortization ? amortization.annuity : toNumber(formData.annuity),
+      age: toNumber(formData.age),
+      employment_years: toNumber(formData.employmentYears),
+      gender: formData.gender || undefined,
+      contract_type: formData.contractType || undefined,
+      education: formData.education || undefined,
+    }, suppressed);
+
+    if (validation.success === false) {
+      showFieldErrors(validation.issues);
+      return;
+    }
+
+    setErrors({});
     setLoading(true);
     
     try {
       const { data, error } = await supabase.functions.invoke('predict-risk', {
-        body: {
-          data: {
-            annual_income: parseFloat(formData.income),
-            credit_amount: parseFloat(formData.creditAmount),
-            annuity: parseFloat(formData.annuity),
-            age: parseInt(formData.age),
-            employment_years: parseInt(formData.employmentYears),
-            gender: formData.gender,
-            contract_type: formData.contractType,
-            education: formData.education,
-          }
-        }
+        body: { data: validation.data, suppress: requestedSuppression }
       });
 
+      if (error instanceof FunctionsHttpError && error.context.status === 422) {
+        const body = await error.context.json();
+        showFieldErrors(body.fields ?? []);
+        return;
+      }
+
       if (error) {
         throw new Error(error.message || 'Prediction failed');
       }
@@ -96,8 +188,24 @@ const Predict = () => {
       }
       
       setResult({
+        input: validation.data,
         probability: data.probability,
         riskBucket: data.bucket,
+        bucketSchemeId: data.bucket_scheme_id,
+        modelVersion: data.model_version,
+        modelRole: data.model_role,
+        engine: data.engine,
+        engineVersion: data.engine_version,
+        inputHash: data.input_hash,
+        imputedFields: data.imputed_fields ?? [],
+        suppressedAttributes: data.suppressed_attributes ?? [],
+        explanation: data.explanation,
+        reasonCodes: data.reason_codes ?? [],
+        reasonCatalogueVersion: data.reason_catalogue_version,
+        pricing: data.pricing,
+        decision: data.decision,
+        pathToApproval: data.path_to_approval ?? null,
+        repayment: amortization ? { terms: loanTerms as LoanTerms, amortization } : null,
       });
       
       toast({
@@ -116,6 +224,8 @@ const Predict = () => {
     }
   };
 
+  const resultBucket = result ? findBucket(result.riskBucket, result.bucketSchemeId) : undefined;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -125,7 +235,10 @@ const Predict = () => {
             <ArrowLeft className="w-5 h-5" />
             <span className="font-semibold">Back to Home</span>
           </Link>
-          <h1 className="text-2xl font-bold text-gradient">Risk Predictor</h1>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Risk Predictor</h1>
+            <UserMenu />
+          </div>
         </div>
       </header>
 
@@ -138,6 +251,27 @@ const Predict = () => {
                 <CardTitle className="text-2xl text-gradient">Applicant Information</CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
+                <div className="rounded-lg border border-border/50 p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="blind" className="flex items-center gap-2">
+                      <EyeOff className="w-4 h-4 text-primary" />
+                      Score without gender
+                    </Label>
+                    <Switch id="blind" checked={blind} onCheckedChange={setBlind} />
+                  </div>
+                  {blind && (
+                    <div className="flex items-center justify-between pl-6">
+                      <Label htmlFor="blindAge" className="text-muted-foreground">Also score without age</Label>
+                      <Switch id="blindAge" checked={blindAge} onCheckedChange={setBlindAge} />
+                    </div>
+                  )}
+                  {productSuppression.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {formData.contractType} are always scored without {productSuppression.join(" and ")}.
+                    </p>
+                  )}
+                </div>
+
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="income">Income (₹)</Label>
@@ -148,6 +282,7 @@ const Predict = () => {
                       value={formData.income}
                       onChange={(e) => handleInputChange("income", e.target.value)}
                     />
+                    {fieldError("income")}
                   </div>
                   
                   <div className="space-y-2">
@@ -159,31 +294,73 @@ const Predict = () => {
                       value={formData.creditAmount}
                       onChange={(e) => handleInputChange("creditAmount", e.target.value)}
                     />
+                    {fieldError("creditAmount")}
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between rounded-lg border border-border/50 p-3">
+                  <Label htmlFor="calculateAnnuity" className="flex items-center gap-2">
+                    <Calculator className="w-4 h-4 text-primary" />
+                    Calculate annuity from interest rate and term
+                  </Label>
+                  <Switch id="calculateAnnuity" checked={calculateAnnuity} onCheckedChange={setCalculateAnnuity} />
+                </div>
+
+                {calculateAnnuity && (
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="interestRate">Interest Rate (% p.a.)</Label>
+                      <Input
+                        id="interestRate"
+                        type="number"
+                        placeholder="12"
+                        value={formData.interestRate}
+                        onChange={(e) => handleInputChange("interestRate", e.target.value)}
+                      />
+                      {fieldError("interestRate")}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="termMonths">Term (months)</Label>
+                      <Input
+                        id="termMonths"
+                        type="number"
+                        placeholder="36"
+                        value={formData.termMonths}
+                        onChange={(e) => handleInputChange("termMonths", e.target.value)}
+                      />
+                      {fieldError("termMonths")}
+                    </div>
+                  </div>
+                )}
+
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="annuity">Annuity (₹)</Label>
+                    <Label htmlFor="annuity">Monthly Annuity (₹)</Label>
                     <Input
                       id="annuity"
                       type="number"
-                      placeholder="1500"
-                      value={formData.annuity}
+                      placeholder={calculateAnnuity ? "Calculated" : "1500"}
+                      value={calculateAnnuity ? amortization?.annuity ?? "" : formData.annuity}
+                      readOnly={calculateAnnuity}
                       onChange={(e) => handleInputChange("annuity", e.target.value)}
                     />
+                    {fieldError("annuity")}
                   </div>
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="age">Age</Label>
-                    <Input
-                      id="age"
-                      type="number"
-                      placeholder="35"
-                      value={formData.age}
-                      onChange={(e) => handleInputChange("age", e.target.value)}
-                    />
-                  </div>
+                  {!suppressed.includes("age") && (
+                    <div className="space-y-2">
+                      <Label htmlFor="age">Age</Label>
+                      <Input
+                        id="age"
+                        type="number"
+                        placeholder="35"
+                        value={formData.age}
+                        onChange={(e) => handleInputChange("age", e.target.value)}
+                      />
+                      {fieldError("age")}
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -195,21 +372,25 @@ const Predict = () => {
                     value={formData.employmentYears}
                     onChange={(e) => handleInputChange("employmentYears", e.target.value)}
                   />
+                  {fieldError("employmentYears")}
                 </div>
 
                 <div className="grid md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="gender">Gender</Label>
-                    <Select value={formData.gender} onValueChange={(value) => handleInputChange("gender", value)}>
-                      <SelectTrigger id="gender">
-                        <SelectValue placeholder="Select gender" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="M">Male</SelectItem>
-                        <SelectItem value="F">Female</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {!suppressed.includes("gender") && (
+                    <div className="space-y-2">
+                      <Label htmlFor="gender">Gender</Label>
+                      <Select value={formData.gender} onValueChange={(value) => handleInputChange("gender", value)}>
+                        <SelectTrigger id="gender">
+                          <SelectValue placeholder="Select gender" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="M">Male</SelectItem>
+                          <SelectItem value="F">Female</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {fieldError("gender")}
+                    </div>
+                  )}
                   
                   <div className="space-y-2">
                     <Label htmlFor="contractType">Contract Type</Label>
@@ -222,6 +403,7 @@ const Predict = () => {
                         <SelectItem value="Revolving loans">Revolving Loan</SelectItem>
                       </SelectContent>
                     </Select>
+                    {fieldError("contractType")}
                   </div>
                 </div>
 
@@ -239,6 +421,7 @@ const Predict = () => {
                       <SelectItem value="Academic degree">Academic Degree</SelectItem>
                     </SelectContent>
                   </Select>
+                  {fieldError("education")}
                 </div>
 
                 <Button 
@@ -272,6 +455,25 @@ const Predict = () => {
                       </div>
                       <Progress value={result.probability * 100} className="h-3 mt-4" />
                     </div>
+                    <p className="text-xs text-center text-muted-foreground">
+                      {result.engine === "lightgbm-onnx"
+                        ? "Scored by the trained LightGBM model"
+                        : "Scored by the heuristic fallback engine (model artifacts unavailable)"}
+                    </p>
+                    <p className="text-xs text-center text-muted-foreground font-mono mt-1 break-all">
+                      {result.modelVersion} ({result.modelRole}) · {result.engineVersion} · input{" "}
+                      {result.inputHash.slice(0, 16)}
+                    </p>
+                    {result.suppressedAttributes.length > 0 && (
+                      <p className="text-xs text-center text-muted-foreground mt-1">
+                        Scored without: {result.suppressedAttributes.join(", ")}
+                      </p>
+                    )}
+                    {result.imputedFields.length > 0 && (
+                      <p className="text-xs text-center text-muted-foreground mt-1">
+                        Imputed from training medians: {result.imputedFields.join(", ")}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -284,13 +486,132 @@ const Predict = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="text-center">
-                      <div className={`text-5xl font-bold mb-2 ${getRiskColor(result.riskBucket)}`}>
+                      <div className="text-5xl font-bold mb-2" style={{ color: resultBucket?.color }}>
                         Bucket {result.riskBucket}
                       </div>
                       <div className="text-xl text-muted-foreground">
-                        {getRiskLabel(result.riskBucket)}
+                        {resultBucket?.label ?? "Unknown"}
+                      </div>
+                    </div>
+                    {result.reasonCodes.length > 0 && (
+                      <div className="mt-6 border-t border-border/50 pt-4">
+                        <h4 className="text-sm font-semibold mb-2">Principal Reasons</h4>
+                        <ol className="space-y-1 text-sm">
+                          {result.reasonCodes.map((reason) => (
+                            <li key={reason.code} className="flex gap-3">
+                              <span className="font-mono text-muted-foreground">{reason.code}</span>
+                              <span>{reason.text}</span>
+                            </li>
+                          ))}
+                        </ol>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Reason catalogue v{result.reasonCatalogueVersion}
+                        </p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="border-gradient">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Gavel className="w-5 h-5 text-primary" />
+                      Decision
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div
+                      className="text-4xl font-bold text-center mb-4"
+                      style={{ color: DECISION_STYLES[result.decision.outcome].color }}
+                    >
+                      {DECISION_STYLES[result.decision.outcome].label}
+                    </div>
+                    <ul className="space-y-1 text-sm">
+                      {result.decision.rules_fired.map((rule) => (
+                        <li key={rule.id} className="flex gap-3">
+                          <span className="font-mono text-muted-foreground">{rule.id}</span>
+                          <span>{rule.description}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-muted-foreground mt-2">Decision policy v{result.decision.policy_version}</p>
+                  </CardContent>
+                </Card>
+
+                <Card className="border-gradient">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <BadgeIndianRupee className="w-5 h-5 text-primary" />
+                      Pricing
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 text-center">
+                      <div>
+                        <div className="text-3xl font-bold">
+                          {result.pricing.suggested_rate === null ? "—" : `${result.pricing.suggested_rate.toFixed(2)}%`}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Suggested rate
+                          {result.pricing.rate_band &&
+                            ` (band ${result.pricing.rate_band.min_rate}–${result.pricing.rate_band.max_rate}%)`}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-3xl font-bold">₹{Math.round(result.pricing.expected_loss).toLocaleString()}</div>
+                        <div className="text-xs text-muted-foreground">Expected loss</div>
                       </div>
                     </div>
+                    <p className="text-xs text-center text-muted-foreground">
+                      PD {formatPercent(result.probability)} × LGD {formatPercent(result.pricing.lgd)} × EAD ₹
+                      {result.pricing.ead.toLocaleString()}
+                      {result.pricing.suggested_rate === null && ` · bucket ${result.riskBucket} is not on the pricing grid`}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                {result.repayment && (
+                  <Card className="border-gradient">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Calculator className="w-5 h-5 text-primary" />
+                        Loan Repayment
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <RepaymentSummary terms={result.repayment.terms} amortization={result.repayment.amortization} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {result.pathToApproval && (
+                  <Card className="border-gradient">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Route className="w-5 h-5 text-primary" />
+                        Path to Approval
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <PathToApproval path={result.pathToApproval} bucketSchemeId={result.bucketSchemeId} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card className="border-gradient">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <BarChart3 className="w-5 h-5 text-primary" />
+                      Why This Score
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ContributionWaterfall explanation={result.explanation} probability={result.probability} />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {result.explanation.method === "rule-points"
+                        ? "Points added or removed by each heuristic rule."
+                        : "Change in the raw model output when each input alone is reset to its typical value, then calibrated. These are single-input ablations, not SHAP values: what inputs do together shows as Interactions."}
+                    </p>
                   </CardContent>
                 </Card>
 
@@ -299,22 +620,21 @@ const Predict = () => {
                     <CardTitle className="text-lg">Risk Bucket Guide</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3 text-sm">
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-full bg-risk-a/20 flex items-center justify-center text-risk-a font-bold">A</div>
-                      <span className="text-muted-foreground">Low Risk (0-6%)</span>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-full bg-risk-b/20 flex items-center justify-center text-risk-b font-bold">B</div>
-                      <span className="text-muted-foreground">Moderate Risk (6-12%)</span>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-full bg-risk-c/20 flex items-center justify-center text-risk-c font-bold">C</div>
-                      <span className="text-muted-foreground">High Risk (12-20%)</span>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-full bg-risk-d/20 flex items-center justify-center text-risk-d font-bold">D</div>
-                      <span className="text-muted-foreground">Very High Risk (20%+)</span>
-                    </div>
+                    {bucketScheme.buckets.map((bucket) => (
+                      <div key={bucket.name} className="flex items-center gap-3">
+                        <div
+                          className="relative w-8 h-8 rounded-full flex items-center justify-center font-bold"
+                          style={{ color: bucket.color }}
+                        >
+                          <div className="absolute inset-0 rounded-full opacity-20" style={{ backgroundColor: bucket.color }} />
+                          {bucket.name}
+                        </div>
+                        <span className="text-muted-foreground">
+                          {bucket.label} ({formatRange(bucketRange(bucketScheme, bucket.name))})
+                        </span>
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground">{bucketScheme.name}</p>
                   </CardContent>
                 </Card>
               </>
@@ -331,6 +651,21 @@ const Predict = () => {
             )}
           </div>
         </div>
+
+        {result && (
+          <div className="max-w-7xl mx-auto mt-8">
+            <WhatIfPanel
+              key={result.inputHash}
+              baseline={result.input}
+              baselineResult={{
+                probability: result.probability,
+                bucket: result.riskBucket,
+                bucketSchemeId: result.bucketSchemeId,
+                modelVersion: result.modelVersion,
+              }}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
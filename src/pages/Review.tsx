@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import ReviewDialog, { type ReferredApplication } from "@/components/ReviewDialog";
+import UserMenu from "@/components/UserMenu";
+import { ArrowLeft, ClipboardCheck, Percent } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useApplicantData } from "@/hooks/use-applicant-data";
+import { useBucketSchemes } from "@/hooks/use-bucket-schemes";
+
+const PAGE_SIZE = 25;
+
+const formatAmount = (value: unknown) => (typeof value === "number" ? `₹${value.toLocaleString()}` : "—");
+
+const formatRate = (overrides: number, reviews: number) =>
+  reviews > 0 ? `${((overrides / reviews) * 100).toFixed(1)}%` : "—";
+
+interface PagerProps {
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+}
+
+const Pager = ({ page, pageCount, onChange }: PagerProps) =>
+  pageCount > 1 ? (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={(e) => {
+              e.preventDefault();
+              onChange(Math.max(0, page - 1));
+            }}
+          />
+        </PaginationItem>
+        <PaginationItem className="px-4 text-sm text-muted-foreground">
+          Page {page + 1} of {pageCount}
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={(e) => {
+              e.preventDefault();
+              onChange(Math.min(pageCount - 1, page + 1));
+            }}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  ) : null;
+
+const Review = () => {
+  const queryClient = useQueryClient();
+  const { findBucket } = useBucketSchemes();
+  const [pendingPage, setPendingPage] = useState(0);
+  const [decidedPage, setDecidedPage] = useState(0);
+  const [selected, setSelected] = useState<ReferredApplication | null>(null);
+
+  // Oldest first, so the queue is worked in arrival order
+  const pending = useQuery({
+    queryKey: ["review-queue", pendingPage],
+    queryFn: async () => {
+      const { data, count, error } = await supabase
+        .from("predictions")
+        .select(
+          "id, created_at, probability, bucket, bucket_scheme_id, model_version, recommendation, rules_fired, reason_codes, reviews(id)",
+          { count: "exact" },
+        )
+        .eq("decision", "refer")
+        .is("reviews", null)
+        .order("created_at", { ascending: true })
+        .range(pendingPage * PAGE_SIZE, (pendingPage + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+      return { rows: data as unknown as ReferredApplication[], count: count ?? 0 };
+    },
+  });
+
+  const { byId: applicants } = useApplicantData(pending.data?.rows.map((row) => row.id) ?? []);
+
+  const decided = useQuery({
+    queryKey: ["reviews", decidedPage],
+    queryFn: async () => {
+      const { data, count, error } = await supabase
+        .from("reviews")
+        .select(
+          "id, reviewed_at, reviewer_email, decision, recommendation, is_override, bucket, comment, prediction_id, predictions(probability, bucket_scheme_id)",
+          { count: "exact" },
+        )
+        .order("reviewed_at", { ascending: false })
+        .range(decidedPage * PAGE_SIZE, (decidedPage + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+      return { rows: data, count: count ?? 0 };
+    },
+  });
+
+  const { byId: decidedApplicants } = useApplicantData(decided.data?.rows.map((row) => row.prediction_id) ?? []);
+
+  const overrideRates = useQuery({
+    queryKey: ["review-override-rates"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("review_override_rates");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const handleReviewed = () => {
+    setSelected(null);
+    queryClient.invalidateQueries({ queryKey: ["review-queue"] });
+    queryClient.invalidateQueries({ queryKey: ["reviews"] });
+    queryClient.invalidateQueries({ queryKey: ["review-override-rates"] });
+  };
+
+  const byDimension = (dimension: string) =>
+    (overrideRates.data ?? [])
+      .filter((row) => row.dimension === dimension)
+      .sort((a, b) => (a.key ?? "").localeCompare(b.key ?? ""));
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 py-4 px-6">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-semibold">Back to Home</span>
+          </Link>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gradient">Review Queue</h1>
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-12 max-w-7xl space-y-8">
+        <Card className="border-gradient">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5 text-primary" />
+              Referred Applications
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="pending">
+              <TabsList>
+                <TabsTrigger value="pending">Pending{pending.data ? ` (${pending.data.count})` : ""}</TabsTrigger>
+                <TabsTrigger value="decided">Decided{decided.data ? ` (${decided.data.count})` : ""}</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="pending" className="space-y-4">
+                {pending.error ? (
+                  <p className="text-destructive">
+                    Failed to load the queue: {pending.error instanceof Error ? pending.error.message : "Unknown error"}
+                  </p>
+                ) : pending.isLoading ? (
+                  <p className="text-muted-foreground">Loading...</p>
+                ) : pending.data.rows.length === 0 ? (
+                  <p className="text-muted-foreground">No referred applications are waiting for review.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Scored At</TableHead>
+                        <TableHead>Income</TableHead>
+                        <TableHead>Credit</TableHead>
+                        <TableHead>Probability</TableHead>
+                        <TableHead>Bucket</TableHead>
+                        <TableHead>Referred By</TableHead>
+                        <TableHead>Recommendation</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pending.data.rows.map((row) => (
+                        <TableRow key={row.id} className="cursor-pointer" onClick={() => setSelected(row)}>
+                          <TableCell>{format(new Date(row.created_at), "dd MMM yyyy HH:mm")}</TableCell>
+                          <TableCell>{formatAmount(applicants.get(row.id)?.input.annual_income)}</TableCell>
+                          <TableCell>{formatAmount(applicants.get(row.id)?.input.credit_amount)}</TableCell>
+                          <TableCell>{(row.probability * 100).toFixed(1)}%</TableCell>
+                          <TableCell
+                            className="font-bold"
+                            style={{ color: findBucket(row.bucket, row.bucket_scheme_id)?.color }}
+                          >
+                            {row.bucket}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {row.rules_fired
+                              .filter((rule) => rule.outcome === "refer")
+                              .map((rule) => rule.id)
+                              .join(", ")}
+                          </TableCell>
+                          <TableCell className="capitalize">{row.recommendation ?? "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <Pager
+                  page={pendingPage}
+                  pageCount={pending.data ? Math.ceil(pending.data.count / PAGE_SIZE) : 0}
+                  onChange={setPendingPage}
+                />
+              </TabsContent>
+
+              <TabsContent value="decided" className="space-y-4">
+                {decided.error ? (
+                  <p className="text-destructive">
+                    Failed to load reviews: {decided.error instanceof Error ? decided.error.message : "Unknown error"}
+                  </p>
+                ) : decided.isLoading ? (
+                  <p className="text-muted-foreground">Loading...</p>
+                ) : decided.data.rows.length === 0 ? (
+                  <p className="text-muted-foreground">No applications have been reviewed yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reviewed At</TableHead>
+                        <TableHead>Reviewer</TableHead>
+                        <TableHead>Credit</TableHead>
+                        <TableHead>Probability</TableHead>
+                        <TableHead>Bucket</TableHead>
+                        <TableHead>Decision</TableHead>
+                        <TableHead>Comment</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {decided.data.rows.map((row) => (
+                        <TableRow key={row.id}>
+                          <TableCell>{format(new Date(row.reviewed_at), "dd MMM yyyy HH:mm")}</TableCell>
+                          <TableCell>{row.reviewer_email ?? "—"}</TableCell>
+                          <TableCell>{formatAmount(decidedApplicants.get(row.prediction_id)?.input.credit_amount)}</TableCell>
+                          <TableCell>
+                            {row.predictions ? `${(row.predictions.probability * 100).toFixed(1)}%` : "—"}
+                          </TableCell>
+                          <TableCell
+                            className="font-bold"
+                            style={{ color: findBucket(row.bucket, row.predictions?.bucket_scheme_id)?.color }}
+                          >
+                            {row.bucket}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span className="capitalize">{row.decision}</span>
+                              {row.is_override && <Badge variant="destructive">Override</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="max-w-sm text-sm text-muted-foreground">{row.comment}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <Pager
+                  page={decidedPage}
+                  pageCount={decided.data ? Math.ceil(decided.data.count / PAGE_SIZE) : 0}
+                  onChange={setDecidedPage}
+                />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        <Card className="border-gradient">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="w-5 h-5 text-primary" />
+              Override Rates
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {overrideRates.error ? (
+              <p className="text-destructive">
+                Failed to load override rates:{" "}
+                {overrideRates.error instanceof Error ? overrideRates.error.message : "Unknown error"}
+              </p>
+            ) : overrideRates.isLoading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-8">
+                {[
+                  { dimension: "reviewer", title: "Per Underwriter" },
+                  { dimension: "bucket", title: "Per Bucket" },
+                ].map(({ dimension, title }) => (
+                  <div key={dimension}>
+                    <h4 className="font-semibold mb-2">{title}</h4>
+                    {byDimension(dimension).length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No reviews yet.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{dimension === "reviewer" ? "Underwriter" : "Bucket"}</TableHead>
+                            <TableHead className="text-right">Reviews</TableHead>
+                            <TableHead className="text-right">Overrides</TableHead>
+                            <TableHead className="text-right">Rate</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {byDimension(dimension).map((row) => (
+                            <TableRow key={row.key}>
+                              <TableCell>{row.key ?? "—"}</TableCell>
+                              <TableCell className="text-right">{row.reviews}</TableCell>
+                              <TableCell className="text-right">{row.overrides}</TableCell>
+                              <TableCell className="text-right font-mono">
+                                {formatRate(row.overrides ?? 0, row.reviews ?? 0)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground mt-6">
+              An override is a review whose decision differs from the model's recommendation: approve for
+              non-adverse buckets, decline for adverse ones.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ReviewDialog application={selected} onClose={() => setSelected(null)} onReviewed={handleReviewed} />
+    </div>
+  );
+};
+
+export default Review;
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+
+import { HOME_CREDIT_CATEGORIES, HOME_CREDIT_NUMERIC_COLUMNS, type HomeCreditFeatures } from './homeCredit.ts';
+
+/**
+ * Schema for one applicant, shared by the predict-risk edge function and the
+ * web client so both report the same field-level errors.
+ */
+
+/** As CODE_GENDER records it: XNA marks a gender that was not recorded, which CSV exports carry */
+export const GENDERS = HOME_CREDIT_CATEGORIES.CODE_GENDER;
+export const CONTRACT_TYPES = HOME_CREDIT_CATEGORIES.NAME_CONTRACT_TYPE;
+export const EDUCATION_LEVELS = HOME_CREDIT_CATEGORIES.NAME_EDUCATION_TYPE;
+
+/** Attributes an applicant can be scored without ("blind" scoring) */
+export const PROTECTED_ATTRIBUTES = ['gender', 'age'] as const;
+export type ProtectedAttribute = (typeof PROTECTED_ATTRIBUTES)[number];
+
+// The friendly field and the Home Credit column that carry each attribute
+const PROTECTED_FIELDS: Record<ProtectedAttribute, readonly string[]> = {
+  gender: ['gender', 'CODE_GENDER'],
+  age: ['age', 'DAYS_BIRTH'],
+};
+
+/**
+ * The eight friendly fields collected by the Predict form, plus any subset of
+ * the raw Home Credit columns. A supplied Home Credit column takes precedence
+ * over the value derived from the friendly fields; columns that are neither
+ * supplied nor derived are imputed from the median table.
+ */
+export interface ApplicantData extends Partial<HomeCreditFeatures> {
+  annual_income: number;
+  credit_amount: number;
+  annuity: number;
+  /** Absent when suppressed, as is `DAYS_BIRTH` */
+  age?: number;
+  employment_years: number;
+  /** Absent when suppressed, as is `CODE_GENDER` */
+  gender?: (typeof GENDERS)[number];
+  contract_type: (typeof CONTRACT_TYPES)[number];
+  education: (typeof EDUCATION_LEVELS)[number];
+}
+
+export const MIN_AGE = 18;
+export const MAX_AGE = 100;
+
+const number = () => z.number({ required_error: 'Required', invalid_type_error: 'Must be a number' }).finite();
+const oneOf = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.enum(values, {
+    errorMap: (issue, ctx) =>
+      issue.code === 'invalid_type' && ctx.data === undefined
+        ? { message: 'Required' }
+        : { message: `Must be one of: ${values.join(', ')}` },
+  });
+
+/** Range checks for raw Home Credit columns, chosen by column family */
+function homeCreditNumber(column: string) {
+  const value = number();
+  if (column.startsWith('EXT_SOURCE_')) return value.min(0).max(1);
+  if (column.startsWith('FLAG_') || /_NOT_(LIVE|WORK)_/.test(column)) return value.int().min(0).max(1);
+  if (column.startsWith('CNT_') || column.startsWith('AMT_REQ_') || column.includes('_CNT_')) return value.int().min(0);
+  if (column.startsWith('AMT_')) return value.min(0);
+  if (column === 'HOUR_APPR_PROCESS_START') return value.int().min(0).max(23);
+  return value;
+}
+
+const homeCreditShape = {
+  ...Object.fromEntries(HOME_CREDIT_NUMERIC_COLUMNS.map((column) => [column, homeCreditNumber(column).optional()])),
+  ...Object.fromEntries(Object.entries(HOME_CREDIT_CATEGORIES).map(([column, values]) => [column, oneOf(values).optional()])),
+} as Record<string, z.ZodTypeAny>;
+
+const friendlyShape = {
+  annual_income: number().positive('Must be greater than 0'),
+  credit_amount: number().positive('Must be greater than 0'),
+  annuity: number().positive('Must be greater than 0'),
+  age: number().min(MIN_AGE, `Must be at least ${MIN_AGE}`).max(MAX_AGE, `Must be at most ${MAX_AGE}`),
+  employment_years: number().min(0, 'Cannot be negative').max(MAX_AGE, `Must be at most ${MAX_AGE}`),
+  gender: oneOf(GENDERS),
+  contract_type: oneOf(CONTRACT_TYPES),
+  education: oneOf(EDUCATION_LEVELS),
+};
+
+/**
+ * The applicant schema, with the friendly fields of suppressed attributes made
+ * optional. It checks each field on its own; `validateApplicant` adds the
+ * checks across fields.
+ */
+function schemaFor(suppressed: readonly ProtectedAttribute[]) {
+  return z
+    .object({
+      ...friendlyShape,
+      ...Object.fromEntries(suppressed.map((attribute) => [attribute, friendlyShape[attribute].optional()])),
+    })
+    .extend(homeCreditShape)
+    .strict('Unknown field');
+}
+
+/**
+ * Checks across fields. A refinement on the full schema only runs once every
+ * field is valid, so these parse just the fields they compare and run
+ * whatever else is wrong with the payload.
+ */
+const loanTermsSchema = z
+  .object({ credit_amount: friendlyShape.credit_amount, annuity: friendlyShape.annuity })
+  .passthrough()
+  .refine((terms) => terms.annuity <= terms.credit_amount, {
+    path: ['annuity'],
+    message: 'Cannot exceed the credit amount',
+  });
+
+function crossFieldIssues(input: unknown): FieldIssue[] {
+  const parsed = loanTermsSchema.safeParse(input);
+  // Invalid amounts are already reported by the field checks
+  if (parsed.success || parsed.error.issues.some((issue) => issue.code !== z.ZodIssueCode.custom)) return [];
+  return toFieldIssues(parsed.error);
+}
+
+export const applicantSchema = schemaFor([]);
+
+// Built once per combination, as a batch validates every row with the same one
+const suppressedSchemas = new Map<string, ReturnType<typeof schemaFor>>();
+
+function cachedSchemaFor(suppressed: readonly ProtectedAttribute[]) {
+  if (suppressed.length === 0) return applicantSchema;
+  const key = [...suppressed].sort().join(',');
+  let schema = suppressedSchemas.get(key);
+  if (!schema) {
+    schema = schemaFor(suppressed);
+    suppressedSchemas.set(key, schema);
+  }
+  return schema;
+}
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: FieldIssue[] };
+
+/**
+ * Validate an applicant payload, collecting every offending field rather than
+ * stopping at the first one. Suppressed attributes need not be supplied, and
+ * are removed if they are, so they cannot reach scoring.
+ */
+export function validateApplicant(
+  input: unknown,
+  suppressed: readonly ProtectedAttribute[] = [],
+): ValidationResult<ApplicantData> {
+  const parsed = cachedSchemaFor(suppressed).safeParse(input);
+  const issues = [...(parsed.success ? [] : toFieldIssues(parsed.error)), ...crossFieldIssues(input)];
+  if (!parsed.success || issues.length > 0) return { success: false, issues };
+
+  const data: Record<string, unknown> = { ...parsed.data };
+  for (const field of suppressed.flatMap((attribute) => PROTECTED_FIELDS[attribute])) delete data[field];
+  return { success: true, data: data as unknown as ApplicantData };
+}
+
+/** Attributes a validated applicant was stripped of, since the friendly fields are otherwise required */
+export const suppressedAttributes = (data: ApplicantData): ProtectedAttribute[] =>
+  PROTECTED_ATTRIBUTES.filter((attribute) => data[attribute] === undefined);
+
+/** Flatten a zod error into one issue per offending field */
+export function toFieldIssues(error: z.ZodError): FieldIssue[] {
+  return error.issues.flatMap((issue): FieldIssue[] =>
+    issue.code === z.ZodIssueCode.unrecognized_keys
+      ? issue.keys.map((key) => ({ field: key, message: 'Unknown field' }))
+      : [{ field: issue.path.join('.') || '(root)', message: issue.message }],
+  );
+}
@@ -0,0 +1,126 @@
+import type { AuthContext } from './auth.ts';
+import { requireAdminClient, supabaseAdmin } from './supabaseAdmin.ts';
+
+/**
+ * Append-only audit trail (`audit_log`). Edge functions record every scoring
+ * call and configuration change; role changes are recorded by a database
+ * trigger. Entries never carry raw applicant data, only its input hash.
+ */
+
+export type AuditAction =
+  | 'prediction.score'
+  | 'prediction.scenario'
+  | 'prediction.batch'
+  | 'bucket_scheme.create'
+  | 'bucket_scheme.activate'
+  | 'model_routing.update'
+  | 'pricing.update'
+  | 'blind_scoring.update'
+  | 'decision_policy.create'
+  | 'decision_policy.activate'
+  | 'review.decide'
+  | 'applicant_data.read'
+  | 'retention.update'
+  | 'fairness.update';
+
+/** Where a call came from */
+export interface ClientInfo {
+  ip: string | null;
+  user_agent: string | null;
+  /** supabase-js sends its name and version in x-client-info */
+  client_info: string | null;
+}
+
+/** One changed leaf of a configuration, addressed like a field issue, e.g. "grid.1.max_rate" */
+export interface AuditChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  resource: string;
+  resource_id?: string | null;
+  details?: Record<string, unknown>;
+  changes?: AuditChange[];
+}
+
+export function clientInfo(req: Request): ClientInfo {
+  const forwarded = req.headers.get('x-forwarded-for');
+  return {
+    ip: forwarded?.split(',')[0].trim() || req.headers.get('x-real-ip'),
+    user_agent: req.headers.get('user-agent'),
+    client_info: req.headers.get('x-client-info'),
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object';
+
+/**
+ * Leaf-level differences between two configurations. Objects and arrays are
+ * compared key by key, so moving one cutoff reports that cutoff alone. An
+ * added or removed key has no `before` or `after` respectively.
+ */
+export function diffConfig(before: unknown, after: unknown, path = ''): AuditChange[] {
+  if (isRecord(before) && isRecord(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => diffConfig(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, before, after }];
+}
+
+export type AuditRow = ReturnType<typeof auditRow>;
+
+/** The audit_log row for an entry, for writes that store it in their own transaction */
+export function auditRow(auth: AuthContext, req: Request, entry: AuditEntry) {
+  return {
+    actor_id: auth.userId,
+    actor_email: auth.email,
+    action: entry.action,
+    resource: entry.resource,
+    resource_id: entry.resource_id ?? null,
+    client: clientInfo(req),
+    details: entry.details ?? {},
+    changes: entry.changes ?? null,
+  };
+}
+
+/**
+ * Append an entry for the authenticated caller. A failed write is logged with
+ * the entry and does not fail the request it records, matching how
+ * predictions are stored.
+ */
+export async function recordAudit(auth: AuthContext, req: Request, entry: AuditEntry): Promise<void> {
+  const row = auditRow(auth, req, entry);
+  if (!supabaseAdmin) {
+    console.error('Supabase credentials missing, audit entry not stored:', row);
+    return;
+  }
+
+  const { error } = await supabaseAdmin.from('audit_log').insert(row);
+  if (error) {
+    console.error('Failed to store audit entry:', error, row);
+  }
+}
+
+/**
+ * Store a configuration row and its audit entry in one transaction
+ * (`write_config`), so a change is either saved and audited or not made at
+ * all. Single-row tables are upserted; schemes and policies get a new row,
+ * whose id or version the entry is filed under. Returns the stored row.
+ * Activations pass their entry to their own functions instead.
+ */
+export async function writeConfig(table: string, row: Record<string, unknown>, audit: AuditRow): Promise<Record<string, unknown>> {
+  const { data, error } = await requireAdminClient('configuration changes').rpc('write_config', {
+    _table: table,
+    _row: row,
+    _audit: audit,
+  });
+  if (error) {
+    console.error('Failed to store configuration change:', error, audit);
+    throw error;
+  }
+  return data;
+}
@@ -0,0 +1,46 @@
+import { HttpError } from './errors.ts';
+import { can, PERMISSIONS, type AppRole, type Permission } from './roles.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export interface AuthContext {
+  userId: string;
+  email: string | null;
+  roles: AppRole[];
+}
+
+/**
+ * Resolve the signed-in user and their roles from the request's bearer
+ * token. Requests made with only the publishable key are rejected with 401.
+ */
+export async function authenticate(req: Request): Promise<AuthContext> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'Sign in required');
+  }
+  if (!supabaseAdmin) {
+    throw new Error('Supabase credentials missing, cannot verify the caller');
+  }
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) {
+    throw new HttpError(401, 'Sign in required');
+  }
+
+  const { data: rows, error: rolesError } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', data.user.id);
+  if (rolesError) throw rolesError;
+
+  return {
+    userId: data.user.id,
+    email: data.user.email ?? null,
+    roles: rows.map((row) => row.role as AppRole),
+  };
+}
+
+export function requirePermission(auth: AuthContext, permission: Permission): void {
+  if (!can(auth.roles, permission)) {
+    throw new HttpError(403, `Requires one of the roles: ${PERMISSIONS[permission].join(', ')}`);
+  }
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+import {
+  CONTRACT_TYPES,
+  PROTECTED_ATTRIBUTES,
+  toFieldIssues,
+  type ApplicantData,
+  type ProtectedAttribute,
+  type ValidationResult,
+} from './applicantSchema.ts';
+
+/**
+ * Products that must be scored without protected attributes. Shared by
+ * predict-risk, which suppresses them, the admin UI, which edits the list,
+ * and the Predict page, which hides the inputs a product does not use.
+ */
+
+type ContractType = ApplicantData['contract_type'];
+
+export interface BlindScoringConfig {
+  /** Attributes each contract type is scored without; unlisted products use them all */
+  products: Partial<Record<ContractType, ProtectedAttribute[]>>;
+}
+
+export const DEFAULT_BLIND_SCORING: BlindScoringConfig = { products: {} };
+
+export const blindScoringSchema = z
+  .object({
+    products: z.record(
+      z.enum(CONTRACT_TYPES, { errorMap: () => ({ message: `Must be one of: ${CONTRACT_TYPES.join(', ')}` }) }),
+      z.array(
+        z.enum(PROTECTED_ATTRIBUTES, {
+          errorMap: () => ({ message: `Must be one of: ${PROTECTED_ATTRIBUTES.join(', ')}` }),
+        }),
+      ),
+    ),
+  })
+  .strict('Unknown field');
+
+/** Validate a blind-scoring change, collecting every offending field */
+export function validateBlindScoring(input: unknown): ValidationResult<BlindScoringConfig> {
+  const parsed = blindScoringSchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as BlindScoringConfig };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
+
+/**
+ * Attributes to suppress for one applicant: those the request asked for plus
+ * those its product is configured without. The contract type is read before
+ * validation, so an invalid one simply adds nothing.
+ */
+export function suppressedFor(
+  config: BlindScoringConfig,
+  contractType: unknown,
+  requested: readonly ProtectedAttribute[],
+): ProtectedAttribute[] {
+  const product = (typeof contractType === 'string' && config.products[contractType as ContractType]) || [];
+  return PROTECTED_ATTRIBUTES.filter((attribute) => requested.includes(attribute) || product.includes(attribute));
+}
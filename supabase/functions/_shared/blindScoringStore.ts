@@ -0,0 +1,15 @@
+import { DEFAULT_BLIND_SCORING, type BlindScoringConfig } from './blindScoring.ts';
+import { singleRowConfig } from './configStore.ts';
+
+/**
+ * The products configured for blind scoring, or none when nothing is stored.
+ * A lookup failure keeps the configuration that last loaded; without one
+ * scoring is refused rather than scoring every product with gender and age.
+ */
+export const blindScoringStore = singleRowConfig<BlindScoringConfig>({
+  name: 'Blind-scoring configuration',
+  table: 'blind_scoring',
+  columns: 'products',
+  defaults: DEFAULT_BLIND_SCORING,
+  action: 'blind_scoring.update',
+});
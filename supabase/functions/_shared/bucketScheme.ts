@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+import { toFieldIssues, type ValidationResult } from './applicantSchema.ts';
+import { DEFAULT_CHAMPION_SUMMARY, type ModelCutoffs } from './modelCatalog.ts';
+
+/**
+ * Risk-bucket schemes: how a default probability maps to a grade. Shared by
+ * the edge functions, which assign buckets, and the web client, which renders
+ * the active scheme instead of hardcoding grades.
+ */
+
+export interface BucketDefinition {
+  /** Grade shown to users and stored with each prediction, e.g. "A" */
+  name: string;
+  label: string;
+  /** Inclusive upper bound on the probability; null for the last bucket */
+  max_probability: number | null;
+  /** Any CSS colour, e.g. "#16a34a" or "hsl(var(--risk-a))" */
+  color: string;
+  /** Applicants in this bucket are given adverse-action reason codes */
+  adverse: boolean;
+}
+
+export interface BucketScheme {
+  /** "default" for the built-in scheme, otherwise the stored scheme's uuid */
+  id: string;
+  name: string;
+  buckets: BucketDefinition[];
+}
+
+export const DEFAULT_SCHEME_ID = 'default';
+export const MAX_BUCKETS = 10;
+
+/**
+ * The four grades a model version was calibrated against, from its export
+ * metadata. This is the "default" scheme, so its cutoffs follow whichever
+ * version scored the applicant.
+ */
+export function modelCutoffScheme(cutoffs: ModelCutoffs): BucketScheme {
+  return {
+    id: DEFAULT_SCHEME_ID,
+    name: 'Model cutoffs (A–D)',
+    buckets: [
+      { name: 'A', label: 'Low Risk', max_probability: cutoffs.A, color: 'hsl(var(--risk-a))', adverse: false },
+      { name: 'B', label: 'Moderate Risk', max_probability: cutoffs.B, color: 'hsl(var(--risk-b))', adverse: false },
+      { name: 'C', label: 'High Risk', max_probability: cutoffs.C, color: 'hsl(var(--risk-c))', adverse: true },
+      { name: 'D', label: 'Very High Risk', max_probability: null, color: 'hsl(var(--risk-d))', adverse: true },
+    ],
+  };
+}
+
+export const DEFAULT_BUCKET_SCHEME: BucketScheme = modelCutoffScheme(DEFAULT_CHAMPION_SUMMARY.cutoffs);
+
+const bucketSchema = z.object({
+  name: z.string().trim().min(1, 'Required').max(8, 'At most 8 characters'),
+  label: z.string().trim().min(1, 'Required').max(40, 'At most 40 characters'),
+  max_probability: z.number().gt(0, 'Must be greater than 0').lt(1, 'Must be less than 1').nullable(),
+  color: z.string().trim().min(1, 'Required'),
+  adverse: z.boolean(),
+}).strict('Unknown field');
+
+export const bucketSchemeSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Required').max(80, 'At most 80 characters'),
+    buckets: z.array(bucketSchema).min(2, 'At least 2 buckets').max(MAX_BUCKETS, `At most ${MAX_BUCKETS} buckets`),
+  })
+  .strict('Unknown field')
+  .superRefine(({ buckets }, ctx) => {
+    const names = new Set<string>();
+    buckets.forEach((bucket, i) => {
+      if (names.has(bucket.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buckets', i, 'name'], message: 'Duplicate bucket name' });
+      }
+      names.add(bucket.name);
+
+      const last = i === buckets.length - 1;
+      if (last && bucket.max_probability !== null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buckets', i, 'max_probability'], message: 'The last bucket must be open-ended' });
+      } else if (!last && bucket.max_probability === null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buckets', i, 'max_probability'], message: 'Required' });
+      }
+
+      const previous = buckets[i - 1]?.max_probability;
+      if (previous != null && bucket.max_probability !== null && bucket.max_probability <= previous) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buckets', i, 'max_probability'], message: 'Must exceed the previous bucket' });
+      }
+    });
+  });
+
+export type BucketSchemeInput = Omit<BucketScheme, 'id'>;
+
+/** Validate an admin-defined scheme, collecting every offending field */
+export function validateBucketScheme(input: unknown): ValidationResult<BucketSchemeInput> {
+  const parsed = bucketSchemeSchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as BucketSchemeInput };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
+
+/** The first bucket whose upper bound covers the probability */
+export function assignBucket(probability: number, scheme: BucketScheme): BucketDefinition {
+  return (
+    scheme.buckets.find((b) => b.max_probability !== null && probability <= b.max_probability) ??
+    scheme.buckets[scheme.buckets.length - 1]
+  );
+}
+
+/** Lower and upper bounds of a bucket, for guides such as "6–12%" */
+export function bucketRange(scheme: BucketScheme, name: string): [number, number | null] {
+  const i = scheme.buckets.findIndex((b) => b.name === name);
+  return [scheme.buckets[i - 1]?.max_probability ?? 0, scheme.buckets[i]?.max_probability ?? null];
+}
@@ -0,0 +1,76 @@
+import { writeConfig, type AuditRow } from './audit.ts';
+import { DEFAULT_BUCKET_SCHEME, DEFAULT_SCHEME_ID, type BucketScheme, type BucketSchemeInput } from './bucketScheme.ts';
+import { configCache } from './configCache.ts';
+import { HttpError } from './errors.ts';
+import { requireAdminClient } from './supabaseAdmin.ts';
+
+const adminClient = () => requireAdminClient('bucket schemes');
+
+interface SchemeRow {
+  id: string;
+  name: string;
+  buckets: unknown;
+  is_active: boolean;
+}
+
+const toScheme = (row: SchemeRow): BucketScheme => ({
+  id: row.id,
+  name: row.name,
+  buckets: row.buckets as BucketScheme['buckets'],
+});
+
+const active = configCache('Bucket scheme', async (client): Promise<BucketScheme> => {
+  const { data, error } = await client
+    .from('bucket_schemes')
+    .select('id, name, buckets, is_active')
+    .eq('is_active', true)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toScheme(data) : DEFAULT_BUCKET_SCHEME;
+});
+
+/**
+ * The scheme buckets are currently assigned with: the stored scheme marked
+ * active, or the built-in model cutoffs when none is. A lookup failure keeps
+ * the scheme that last loaded, and without one scoring is refused.
+ */
+export function loadActiveScheme(): Promise<BucketScheme> {
+  return active.load();
+}
+
+/** The built-in scheme followed by every stored one, oldest first, with the active id */
+export async function listSchemes(): Promise<{ activeId: string; schemes: BucketScheme[] }> {
+  const { data, error } = await adminClient()
+    .from('bucket_schemes')
+    .select('id, name, buckets, is_active')
+    .order('created_at');
+  if (error) throw error;
+
+  return {
+    activeId: data.find((row) => row.is_active)?.id ?? DEFAULT_SCHEME_ID,
+    schemes: [DEFAULT_BUCKET_SCHEME, ...data.map(toScheme)],
+  };
+}
+
+/** Store a new scheme together with its audit entry, which is filed under the new id */
+export async function createScheme(input: BucketSchemeInput, userId: string, audit: AuditRow): Promise<BucketScheme> {
+  const row = await writeConfig('bucket_schemes', { name: input.name, buckets: input.buckets, created_by: userId }, audit);
+  return toScheme(row as unknown as SchemeRow);
+}
+
+/**
+ * Make a stored scheme, or the built-in one, the scheme used for new scores.
+ * The switch and its audit entry are written in one transaction.
+ */
+export async function activateScheme(id: string, audit: AuditRow): Promise<void> {
+  const { error } = await adminClient().rpc('activate_bucket_scheme', {
+    _id: id === DEFAULT_SCHEME_ID ? null : id,
+    _audit: audit,
+  });
+  if (error) {
+    // Raised by the function when no stored scheme has this id
+    if (error.code === 'P0002') throw new HttpError(404, 'Bucket scheme not found');
+    throw error;
+  }
+  active.invalidate();
+}
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { HttpError } from './errors.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+// How long an instance reuses a configuration before re-reading it
+const CACHE_TTL_MS = 60_000;
+
+/**
+ * Cached configuration: the bucket scheme, the decision policy and every
+ * single-row configuration (see configStore.ts). `read` returns the stored value or its
+ * default when none is stored, and throws when the lookup fails. A failed
+ * lookup keeps the value that last loaded, even past its TTL; without one the
+ * request is refused, so scores never quietly switch to a default nobody
+ * activated. `name` completes "… unavailable", e.g. "Decision policy".
+ */
+export function configCache<T>(name: string, read: (client: SupabaseClient) => Promise<T>) {
+  let cached: { value: T; expires: number } | null = null;
+
+  return {
+    async load(): Promise<T> {
+      if (cached && cached.expires > Date.now()) return cached.value;
+
+      try {
+        if (!supabaseAdmin) throw new Error('Supabase credentials missing');
+        const value = await read(supabaseAdmin);
+        cached = { value, expires: Date.now() + CACHE_TTL_MS };
+        return value;
+      } catch (error) {
+        console.error(`Failed to load ${name.toLowerCase()}:`, error);
+        if (cached) return cached.value;
+        throw new HttpError(503, `${name} unavailable, please retry`);
+      }
+    },
+
+    /** Re-read on the next load, after a change */
+    invalidate() {
+      cached = null;
+    },
+  };
+}
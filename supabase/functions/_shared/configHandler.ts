@@ -0,0 +1,70 @@
+import type { ValidationResult } from './applicantSchema.ts';
+import { authenticate, requirePermission, type AuthContext } from './auth.ts';
+import type { SingleRowConfig } from './configStore.ts';
+import { HttpError } from './errors.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject } from './http.ts';
+import type { Permission } from './roles.ts';
+
+interface ExtraMethod {
+  permission: Permission;
+  handle: (req: Request, auth: AuthContext) => Promise<Response>;
+}
+
+export interface ConfigHandlerOptions<T> {
+  /** The edge function's name, for error logs */
+  functionName: string;
+  store: SingleRowConfig<T>;
+  validate: (input: unknown) => ValidationResult<T>;
+  /** Who may GET the configuration; replacing it always needs manageConfig */
+  readPermission: Permission;
+  /** Body of GET and of a successful PUT; the configuration itself by default */
+  respond?: () => Promise<unknown>;
+  /** Methods beyond GET and PUT, e.g. a report or a purge */
+  methods?: Record<string, ExtraMethod>;
+}
+
+/**
+ * Request handler for a single-row configuration function: GET reads it, PUT
+ * validates and replaces it, anything else is 405 unless listed in `methods`.
+ */
+export function configHandler<T>(options: ConfigHandlerOptions<T>): (req: Request) => Promise<Response> {
+  const { functionName, store, validate, readPermission, methods = {} } = options;
+  const respond = options.respond ?? store.load;
+
+  return async (req) => {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const auth = await authenticate(req);
+
+      switch (req.method) {
+        case 'GET': {
+          requirePermission(auth, readPermission);
+          return jsonResponse(await respond());
+        }
+        case 'PUT': {
+          requirePermission(auth, 'manageConfig');
+          const validation = validate(await readJsonObject(req));
+          if (!validation.success) {
+            throw new HttpError(422, `Invalid ${store.name.toLowerCase()}`, validation.issues);
+          }
+          await store.save(validation.data, auth, req);
+          return jsonResponse(await respond());
+        }
+        default: {
+          const method = methods[req.method];
+          if (!method) {
+            throw new HttpError(405, `Method ${req.method} not allowed`);
+          }
+          requirePermission(auth, method.permission);
+          return await method.handle(req, auth);
+        }
+      }
+    } catch (error) {
+      return errorResponse(error, functionName, `Failed to process ${functionName.replace('-', ' ')} request`);
+    }
+  };
+}
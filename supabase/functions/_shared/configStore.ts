@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { auditRow, diffConfig, writeConfig, type AuditAction } from './audit.ts';
+import type { AuthContext } from './auth.ts';
+import { configCache } from './configCache.ts';
+import { requireAdminClient } from './supabaseAdmin.ts';
+
+/** A configuration kept as the single row (`id = true`) of its table */
+export interface SingleRowConfigSpec<T> {
+  /** Completes "… updated", "Invalid …" and "… unavailable", e.g. "Pricing configuration" */
+  name: string;
+  table: string;
+  /** The columns holding the configuration, as passed to `select` */
+  columns: string;
+  /** Used when no row is stored */
+  defaults: T;
+  action: AuditAction;
+}
+
+export interface SingleRowConfig<T> {
+  readonly name: string;
+  /** The stored configuration or its defaults, cached like the other scoring configuration */
+  load(): Promise<T>;
+  /** Replace the configuration and audit what changed, in one transaction */
+  save(config: T, auth: AuthContext, req: Request): Promise<void>;
+}
+
+export function singleRowConfig<T extends object>(spec: SingleRowConfigSpec<T>): SingleRowConfig<T> {
+  const read = async (client: SupabaseClient): Promise<T> => {
+    const { data, error } = await client
+      .from(spec.table)
+      .select(spec.columns)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as T | null) ?? spec.defaults;
+  };
+  const stored = configCache(spec.name, read);
+
+  return {
+    name: spec.name,
+    load: stored.load,
+
+    async save(config, auth, req) {
+      const client = requireAdminClient(spec.name.toLowerCase());
+      const before = await read(client);
+
+      await writeConfig(
+        spec.table,
+        { id: true, ...config, updated_by: auth.userId, updated_at: new Date().toISOString() },
+        auditRow(auth, req, { action: spec.action, resource: spec.table, changes: diffConfig(before, config) }),
+      );
+      stored.invalidate();
+      console.log(`${spec.name} updated:`, { ...config, by: auth.userId });
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import medians from '../predict-risk/models/lgbm-v1/feature_medians.json' with { type: 'json' };
+import type { ApplicantData } from './applicantSchema.ts';
+import { DEFAULT_BUCKET_SCHEME } from './bucketScheme.ts';
+import { decide, DEFAULT_POLICY, validateDecisionPolicy } from './decisionPolicy.ts';
+import { FRIENDLY_COLUMNS } from './homeCredit.ts';
+
+const [bucketA] = DEFAULT_BUCKET_SCHEME.buckets;
+
+/** The training median applicant, as CSV import derives the friendly fields from its columns */
+const medianApplicant: ApplicantData = {
+  annual_income: FRIENDLY_COLUMNS.annual_income.fromColumn(medians.AMT_INCOME_TOTAL),
+  credit_amount: FRIENDLY_COLUMNS.credit_amount.fromColumn(medians.AMT_CREDIT),
+  annuity: FRIENDLY_COLUMNS.annuity.fromColumn(medians.AMT_ANNUITY),
+  age: FRIENDLY_COLUMNS.age.fromColumn(medians.DAYS_BIRTH),
+  employment_years: FRIENDLY_COLUMNS.employment_years.fromColumn(medians.DAYS_EMPLOYED),
+  gender: 'F',
+  contract_type: 'Cash loans',
+  education: 'Secondary / secondary special',
+};
+
+Deno.test('the median applicant in a low-risk bucket is approved, not knocked out', () => {
+  const result = decide(DEFAULT_POLICY, medianApplicant, 0.03, bucketA, DEFAULT_BUCKET_SCHEME);
+  assertEquals(result.outcome, 'approve');
+  assertEquals(result.rules_fired.map((r) => r.id), ['BUCKET_A']);
+});
+
+Deno.test('annuity converts between the monthly field and the yearly AMT_ANNUITY both ways', () => {
+  const { toColumn, fromColumn } = FRIENDLY_COLUMNS.annuity;
+  assertEquals(fromColumn(medians.AMT_ANNUITY), 2259);
+  assertEquals(toColumn(fromColumn(medians.AMT_ANNUITY)), medians.AMT_ANNUITY);
+});
+
+const bucket = (name: string) => DEFAULT_BUCKET_SCHEME.buckets.find((b) => b.name === name)!;
+
+Deno.test('every knock-out that fires is reported, and the bucket is not consulted', () => {
+  const overstretched = { ...medianApplicant, annuity: 10000, age: 30, employment_years: 20 };
+  const result = decide(DEFAULT_POLICY, overstretched, 0.03, bucketA, DEFAULT_BUCKET_SCHEME);
+  assertEquals(result.outcome, 'decline');
+  assertEquals(result.recommendation, 'approve');
+  assertEquals(result.rules_fired.map((r) => r.id), ['KO_DTI', 'KO_EMPLOYMENT']);
+});
+
+Deno.test('a suppressed age never fires a rule that compares with it', () => {
+  const { age: _age, ...blind } = { ...medianApplicant, employment_years: 60 };
+  const result = decide(DEFAULT_POLICY, blind, 0.03, bucketA, DEFAULT_BUCKET_SCHEME);
+  assertEquals(result.outcome, 'approve');
+});
+
+Deno.test("a probability just below the scheme's B cutoff is referred", () => {
+  const cutoff = bucket('B').max_probability!;
+  const result = decide(DEFAULT_POLICY, medianApplicant, cutoff - 0.005, bucket('B'), DEFAULT_BUCKET_SCHEME);
+  assertEquals(result.outcome, 'refer');
+  assertEquals(result.rules_fired.map((r) => r.id), ['BUCKET_B', 'REF_BORDERLINE']);
+});
+
+Deno.test('adverse buckets follow their mapping, and an unmapped bucket is referred', () => {
+  const declined = decide(DEFAULT_POLICY, medianApplicant, 0.5, bucket('D'), DEFAULT_BUCKET_SCHEME);
+  assertEquals([declined.outcome, declined.recommendation], ['decline', 'decline']);
+
+  const unmapped = { ...DEFAULT_POLICY, policy: { ...DEFAULT_POLICY.policy, bucket_decisions: {} } };
+  const referred = decide(unmapped, medianApplicant, 0.03, bucketA, DEFAULT_BUCKET_SCHEME);
+  assertEquals(referred.rules_fired, [{ id: 'BUCKET_A', description: 'Bucket A has no mapping', outcome: 'refer' }]);
+});
+
+Deno.test('a policy reusing a rule id is rejected at the duplicate', () => {
+  const [rule] = DEFAULT_POLICY.policy.knockouts;
+  const result = validateDecisionPolicy({ ...DEFAULT_POLICY.policy, refer_rules: [rule] });
+  assertEquals(result.success ? [] : result.issues, [{ field: 'refer_rules.0.id', message: 'Duplicate rule id' }]);
+});
@@ -0,0 +1,250 @@
+import { z } from 'zod';
+
+import { toFieldIssues, type ApplicantData, type ValidationResult } from './applicantSchema.ts';
+import type { BucketDefinition, BucketScheme } from './bucketScheme.ts';
+import { MONTHS_PER_YEAR } from './homeCredit.ts';
+
+/**
+ * Decision policies: the rules layer that turns a score into an outcome.
+ * Shared by predict-risk, which decides every score, and the admin UI, which
+ * edits policies as versioned JSON.
+ *
+ * Knock-out rules decline outright. Otherwise the bucket's mapped decision
+ * applies, and an approval becomes a referral when any refer rule fires.
+ */
+
+export const DECISIONS = ['approve', 'refer', 'decline'] as const;
+export type Decision = (typeof DECISIONS)[number];
+
+/** Applicant fields and derived ratios a rule can test */
+export const POLICY_FIELDS = [
+  'age',
+  'employment_years',
+  'annual_income',
+  'credit_amount',
+  'annuity',
+  'debt_to_income',
+  'credit_to_income',
+  'probability',
+] as const;
+export type PolicyField = (typeof POLICY_FIELDS)[number];
+
+export const OPERATORS = ['<', '<=', '>', '>='] as const;
+export type Operator = (typeof OPERATORS)[number];
+
+/**
+ * Compare a field with a constant, with another field plus an offset, or with
+ * a bucket's upper probability bound in the scheme that graded the applicant
+ * plus an offset. A bound the scheme does not have never matches.
+ */
+export interface Condition {
+  field: PolicyField;
+  op: Operator;
+  value: number | { field: PolicyField; offset?: number } | { cutoff: string; offset?: number };
+}
+
+export interface PolicyRule {
+  id: string;
+  description: string;
+  /** All conditions must hold for the rule to fire */
+  when: Condition[];
+}
+
+export interface DecisionPolicy {
+  knockouts: PolicyRule[];
+  refer_rules: PolicyRule[];
+  /** Decision per bucket name; buckets not listed are referred */
+  bucket_decisions: Record<string, Decision>;
+}
+
+export interface StoredPolicy {
+  /** 0 for the built-in policy, then increasing with each saved version */
+  version: number;
+  note: string;
+  policy: DecisionPolicy;
+}
+
+export interface FiredRule {
+  id: string;
+  description: string;
+  outcome: Decision;
+}
+
+/** What the score alone suggests: decline for adverse buckets, approve otherwise */
+export type Recommendation = Exclude<Decision, 'refer'>;
+
+export interface DecisionResult {
+  outcome: Decision;
+  recommendation: Recommendation;
+  policy_version: number;
+  /** Knock-outs, the bucket mapping and refer rules that contributed, in that order */
+  rules_fired: FiredRule[];
+}
+
+export const DEFAULT_POLICY: StoredPolicy = {
+  version: 0,
+  note: 'Built-in policy',
+  policy: {
+    knockouts: [
+      {
+        id: 'KO_DTI',
+        description: 'Debt-to-income ratio above 60%',
+        when: [{ field: 'debt_to_income', op: '>', value: 0.6 }],
+      },
+      {
+        id: 'KO_EMPLOYMENT',
+        description: 'Employment history longer than working age',
+        when: [{ field: 'employment_years', op: '>', value: { field: 'age', offset: -14 } }],
+      },
+    ],
+    refer_rules: [
+      {
+        id: 'REF_BORDERLINE',
+        description: 'Probability within one point below the B/C cutoff',
+        when: [
+          { field: 'probability', op: '>', value: { cutoff: 'B', offset: -0.01 } },
+          { field: 'probability', op: '<=', value: { cutoff: 'B' } },
+        ],
+      },
+      {
+        id: 'REF_EXPOSURE',
+        description: 'Credit above five times annual income',
+        when: [{ field: 'credit_to_income', op: '>', value: 5 }],
+      },
+    ],
+    bucket_decisions: { A: 'approve', B: 'approve', C: 'refer', D: 'decline' },
+  },
+};
+
+const field = () => z.enum(POLICY_FIELDS, { errorMap: () => ({ message: `Must be one of: ${POLICY_FIELDS.join(', ')}` }) });
+
+const conditionSchema = z
+  .object({
+    field: field(),
+    op: z.enum(OPERATORS, { errorMap: () => ({ message: `Must be one of: ${OPERATORS.join(' ')}` }) }),
+    value: z.union([
+      z.number().finite(),
+      z.object({ field: field(), offset: z.number().finite().optional() }).strict('Unknown field'),
+      z.object({ cutoff: z.string().trim().min(1), offset: z.number().finite().optional() }).strict('Unknown field'),
+    ], { errorMap: () => ({ message: 'Must be a number, { field, offset } or { cutoff, offset }' }) }),
+  })
+  .strict('Unknown field');
+
+const ruleSchema = z
+  .object({
+    id: z.string().trim().regex(/^[A-Z0-9_]{1,32}$/, 'Use 1–32 capitals, digits or underscores'),
+    description: z.string().trim().min(1, 'Required').max(120, 'At most 120 characters'),
+    when: z.array(conditionSchema).min(1, 'At least one condition'),
+  })
+  .strict('Unknown field');
+
+export const decisionPolicySchema = z
+  .object({
+    knockouts: z.array(ruleSchema),
+    refer_rules: z.array(ruleSchema),
+    bucket_decisions: z.record(z.enum(DECISIONS, { errorMap: () => ({ message: `Must be one of: ${DECISIONS.join(', ')}` }) })),
+  })
+  .strict('Unknown field')
+  .superRefine(({ knockouts, refer_rules }, ctx) => {
+    const ids = new Set<string>();
+    for (const [list, rules] of [['knockouts', knockouts], ['refer_rules', refer_rules]] as const) {
+      rules.forEach((rule, i) => {
+        if (ids.has(rule.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [list, i, 'id'], message: 'Duplicate rule id' });
+        }
+        ids.add(rule.id);
+      });
+    }
+  });
+
+/** Validate an admin-edited policy, collecting every offending field */
+export function validateDecisionPolicy(input: unknown): ValidationResult<DecisionPolicy> {
+  const parsed = decisionPolicySchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as DecisionPolicy };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
+
+function fieldValues(data: ApplicantData, probability: number): Record<PolicyField, number> {
+  return {
+    // A suppressed age is unknown, so no condition on it holds
+    age: data.age ?? NaN,
+    employment_years: data.employment_years,
+    annual_income: data.annual_income,
+    credit_amount: data.credit_amount,
+    annuity: data.annuity,
+    // Annuity is the monthly instalment, income is yearly
+    debt_to_income: (data.annuity * MONTHS_PER_YEAR) / data.annual_income,
+    credit_to_income: data.credit_amount / data.annual_income,
+    probability,
+  };
+}
+
+/** Upper probability bound of each bounded bucket, by name */
+const cutoffsOf = (scheme: BucketScheme): Record<string, number> =>
+  Object.fromEntries(scheme.buckets.flatMap((b) => (b.max_probability === null ? [] : [[b.name, b.max_probability]])));
+
+function operand(value: Condition['value'], values: Record<PolicyField, number>, cutoffs: Record<string, number>): number {
+  if (typeof value === 'number') return value;
+  const base = 'cutoff' in value ? cutoffs[value.cutoff] ?? NaN : values[value.field];
+  return base + (value.offset ?? 0);
+}
+
+function holds(
+  { field, op, value }: Condition,
+  values: Record<PolicyField, number>,
+  cutoffs: Record<string, number>,
+): boolean {
+  const left = values[field];
+  const right = operand(value, values, cutoffs);
+  switch (op) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+}
+
+const fires = (rule: PolicyRule, values: Record<PolicyField, number>, cutoffs: Record<string, number>) =>
+  rule.when.every((condition) => holds(condition, values, cutoffs));
+
+/**
+ * Decide one scored applicant, graded by `scheme`. Every knock-out is evaluated so the full set
+ * of reasons is reported, not just the first.
+ */
+export function decide(
+  { version, policy }: StoredPolicy,
+  data: ApplicantData,
+  probability: number,
+  { name: bucket, adverse }: BucketDefinition,
+  scheme: BucketScheme,
+): DecisionResult {
+  const values = fieldValues(data, probability);
+  const cutoffs = cutoffsOf(scheme);
+  const recommendation: Recommendation = adverse ? 'decline' : 'approve';
+  const knockouts: FiredRule[] = policy.knockouts
+    .filter((rule) => fires(rule, values, cutoffs))
+    .map(({ id, description }) => ({ id, description, outcome: 'decline' }));
+  if (knockouts.length > 0) {
+    return { outcome: 'decline', recommendation, policy_version: version, rules_fired: knockouts };
+  }
+
+  const mapped = policy.bucket_decisions[bucket];
+  const bucketRule: FiredRule = {
+    id: `BUCKET_${bucket}`,
+    description: mapped ? `Bucket ${bucket} maps to ${mapped}` : `Bucket ${bucket} has no mapping`,
+    outcome: mapped ?? 'refer',
+  };
+  if (bucketRule.outcome !== 'approve') {
+    return { outcome: bucketRule.outcome, recommendation, policy_version: version, rules_fired: [bucketRule] };
+  }
+
+  const referrals: FiredRule[] = policy.refer_rules
+    .filter((rule) => fires(rule, values, cutoffs))
+    .map(({ id, description }) => ({ id, description, outcome: 'refer' }));
+  return {
+    outcome: referrals.length > 0 ? 'refer' : 'approve',
+    recommendation,
+    policy_version: version,
+    rules_fired: [bucketRule, ...referrals],
+  };
+}
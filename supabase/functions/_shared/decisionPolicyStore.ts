@@ -0,0 +1,76 @@
+import { writeConfig, type AuditRow } from './audit.ts';
+import { DEFAULT_POLICY, type DecisionPolicy, type StoredPolicy } from './decisionPolicy.ts';
+import { configCache } from './configCache.ts';
+import { HttpError } from './errors.ts';
+import { requireAdminClient } from './supabaseAdmin.ts';
+
+const adminClient = () => requireAdminClient('decision policies');
+
+interface PolicyRow {
+  version: number;
+  note: string;
+  policy: unknown;
+  is_active: boolean;
+}
+
+const toPolicy = (row: PolicyRow): StoredPolicy => ({
+  version: row.version,
+  note: row.note,
+  policy: row.policy as DecisionPolicy,
+});
+
+const active = configCache('Decision policy', async (client): Promise<StoredPolicy> => {
+  const { data, error } = await client
+    .from('decision_policies')
+    .select('version, note, policy, is_active')
+    .eq('is_active', true)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toPolicy(data) : DEFAULT_POLICY;
+});
+
+/**
+ * The policy scores are currently decided with: the stored version marked
+ * active, or the built-in policy when none is. A lookup failure keeps the
+ * policy that last loaded, and without one scoring is refused.
+ */
+export function loadActivePolicy(): Promise<StoredPolicy> {
+  return active.load();
+}
+
+/** The built-in policy followed by every stored version, newest first, with the active version */
+export async function listPolicies(): Promise<{ activeVersion: number; policies: StoredPolicy[] }> {
+  const { data, error } = await adminClient()
+    .from('decision_policies')
+    .select('version, note, policy, is_active')
+    .order('version', { ascending: false });
+  if (error) throw error;
+
+  return {
+    activeVersion: data.find((row) => row.is_active)?.version ?? DEFAULT_POLICY.version,
+    policies: [...data.map(toPolicy), DEFAULT_POLICY],
+  };
+}
+
+/** Store a new version together with its audit entry, which is filed under the new version */
+export async function createPolicy(policy: DecisionPolicy, note: string, userId: string, audit: AuditRow): Promise<StoredPolicy> {
+  const row = await writeConfig('decision_policies', { policy, note, created_by: userId }, audit);
+  return toPolicy(row as unknown as PolicyRow);
+}
+
+/**
+ * Make a stored version, or the built-in policy (version 0), the one used for
+ * new scores. The switch and its audit entry are written in one transaction.
+ */
+export async function activatePolicy(version: number, audit: AuditRow): Promise<void> {
+  const { error } = await adminClient().rpc('activate_decision_policy', {
+    _version: version === DEFAULT_POLICY.version ? null : version,
+    _audit: audit,
+  });
+  if (error) {
+    // Raised by the function when no stored policy has this version
+    if (error.code === 'P0002') throw new HttpError(404, 'Decision policy version not found');
+    throw error;
+  }
+  active.invalidate();
+}
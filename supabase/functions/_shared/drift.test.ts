@@ -0,0 +1,59 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { computeDrift, driftStatus, MIN_DRIFT_SAMPLE, psi, type ReferenceDistribution } from './drift.ts';
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 1e4) / 1e4);
+
+const reference: ReferenceDistribution = {
+  score: { edges: [0.05, 0.1], shares: [0.5, 0.3, 0.2] },
+  features: {
+    AMT_INCOME_TOTAL: { edges: [100000], shares: [0.5, 0.5] },
+    CODE_GENDER: { categories: { F: 0.6, M: 0.4 } },
+  },
+};
+
+Deno.test('PSI is zero for a matching distribution and grows with the shift', () => {
+  assertEquals(psi([0.5, 0.5], [0.5, 0.5]), 0);
+  // 0.4 · ln(1.8) + 0.4 · ln(5)
+  assertEquals(round(psi([0.5, 0.5], [0.9, 0.1])), 0.8789);
+});
+
+Deno.test('an empty bin is floored rather than making PSI infinite', () => {
+  assertEquals(Number.isFinite(psi([0.5, 0.5], [1, 0])), true);
+});
+
+Deno.test('status follows the thresholds and needs a minimum sample', () => {
+  assertEquals(driftStatus(0.05, MIN_DRIFT_SAMPLE), 'stable');
+  assertEquals(driftStatus(0.1, MIN_DRIFT_SAMPLE), 'moderate');
+  assertEquals(driftStatus(0.25, MIN_DRIFT_SAMPLE), 'significant');
+  assertEquals(driftStatus(0.25, MIN_DRIFT_SAMPLE - 1), 'insufficient');
+  assertEquals(driftStatus(null, 0), 'insufficient');
+});
+
+Deno.test('a value on a cut point falls in the bin above it, and heuristic scores are left out', () => {
+  const { total, score } = computeDrift(reference, [], [
+    { probability: 0.05, values: {} },
+    { probability: 0.2, values: {} },
+    { probability: null, values: {} },
+  ]);
+  assertEquals(total, 3);
+  assertEquals(score.count, 2);
+  assertEquals(score.bins.map((bin) => [bin.label, bin.actual]), [['< 0.05', 0], ['0.05 – 0.1', 0.5], ['≥ 0.1', 0.5]]);
+});
+
+Deno.test('unseen categories are pooled, missing values skipped, and the most drifted feature comes first', () => {
+  const { features } = computeDrift(reference, ['AMT_INCOME_TOTAL', 'CODE_GENDER', 'DAYS_BIRTH'], [
+    { probability: 0.03, values: { AMT_INCOME_TOTAL: 90000, CODE_GENDER: 'F' } },
+    { probability: 0.03, values: { AMT_INCOME_TOTAL: 150000, CODE_GENDER: 'XNA' } },
+    { probability: 0.03, values: { AMT_INCOME_TOTAL: NaN } },
+  ]);
+
+  assertEquals(features.map((f) => f.name), ['CODE_GENDER', 'AMT_INCOME_TOTAL']);
+  const [gender, income] = features;
+  assertEquals(gender.bins, [
+    { label: 'F', expected: 0.6, actual: 0.5 },
+    { label: 'M', expected: 0.4, actual: 0 },
+    { label: 'Other', expected: 0, actual: 0.5 },
+  ]);
+  assertEquals([income.count, income.psi], [2, 0]);
+});
@@ -0,0 +1,171 @@
+/**
+ * Population and characteristic stability (PSI/CSI) of recent predictions
+ * against the reference distribution shipped with each model version. Shared
+ * by the model-drift edge function, which computes the report, and the /drift
+ * page, which charts it.
+ */
+
+/** Bins of a numeric column: `edges` are the inner cut points, so there is one more share than edge */
+export interface NumericReference {
+  edges: number[];
+  shares: number[];
+}
+
+/** Share of each category in the training data */
+export interface CategoricalReference {
+  categories: Record<string, number>;
+}
+
+/** `reference_distribution.json`, exported from the training data with the other artifacts */
+export interface ReferenceDistribution {
+  /** Calibrated probability of default */
+  score: NumericReference;
+  /** Non-missing values of a subset of `feature_columns` */
+  features: Record<string, NumericReference | CategoricalReference>;
+}
+
+/** PSI at or above `moderate` is flagged for review, at or above `significant` as drifted */
+export const PSI_THRESHOLDS = { moderate: 0.1, significant: 0.25 } as const;
+
+/** Distributions with fewer observations are shown but not flagged */
+export const MIN_DRIFT_SAMPLE = 100;
+
+export type DriftStatus = 'stable' | 'moderate' | 'significant' | 'insufficient';
+
+export interface DriftBin {
+  label: string;
+  expected: number;
+  actual: number;
+}
+
+export interface DistributionDrift {
+  /** `score`, or the feature column */
+  name: string;
+  count: number;
+  /** Null without observations */
+  psi: number | null;
+  status: DriftStatus;
+  bins: DriftBin[];
+}
+
+/** One stored prediction, reduced to what the report needs */
+export interface DriftObservation {
+  /** Null when the heuristic fallback scored it, whose scores the reference does not describe */
+  probability: number | null;
+  /** Pre-encoding values the applicant supplied or derived, by feature column */
+  values: Record<string, number | string>;
+}
+
+export interface DriftReport {
+  from: string;
+  to: string;
+  model_version: string;
+  total: number;
+  /** True when the period held more predictions than the report reads */
+  truncated: boolean;
+  score: DistributionDrift;
+  /** Characteristic stability per feature, most drifted first */
+  features: DistributionDrift[];
+}
+
+// Empty bins would make PSI infinite; both sides are floored to this share
+const SHARE_FLOOR = 1e-4;
+
+const OTHER_CATEGORY = 'Other';
+
+/** Population stability index: Σ (actual − expected) · ln(actual / expected) */
+export function psi(expected: number[], actual: number[]): number {
+  return expected.reduce((sum, e, i) => {
+    const a = Math.max(actual[i], SHARE_FLOOR);
+    const floored = Math.max(e, SHARE_FLOOR);
+    return sum + (a - floored) * Math.log(a / floored);
+  }, 0);
+}
+
+export function driftStatus(value: number | null, count: number): DriftStatus {
+  if (value === null || count < MIN_DRIFT_SAMPLE) return 'insufficient';
+  if (value >= PSI_THRESHOLDS.significant) return 'significant';
+  if (value >= PSI_THRESHOLDS.moderate) return 'moderate';
+  return 'stable';
+}
+
+const formatEdge = (edge: number) => edge.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+function numericBinLabel(edges: number[], bin: number): string {
+  if (bin === 0) return `< ${formatEdge(edges[0])}`;
+  if (bin === edges.length) return `≥ ${formatEdge(edges[edges.length - 1])}`;
+  return `${formatEdge(edges[bin - 1])} – ${formatEdge(edges[bin])}`;
+}
+
+function distribution(name: string, expected: number[], counts: number[], labels: string[]): DistributionDrift {
+  const count = counts.reduce((sum, c) => sum + c, 0);
+  const actual = counts.map((c) => (count === 0 ? 0 : c / count));
+  const value = count === 0 ? null : psi(expected, actual);
+  return {
+    name,
+    count,
+    psi: value,
+    status: driftStatus(value, count),
+    bins: labels.map((label, i) => ({ label, expected: expected[i], actual: actual[i] })),
+  };
+}
+
+function numericDrift(name: string, reference: NumericReference, values: number[]): DistributionDrift {
+  const counts = reference.shares.map(() => 0);
+  for (const value of values) {
+    // Bin i holds [edges[i - 1], edges[i])
+    counts[reference.edges.filter((edge) => edge <= value).length]++;
+  }
+  const labels = reference.shares.map((_, bin) => numericBinLabel(reference.edges, bin));
+  return distribution(name, reference.shares, counts, labels);
+}
+
+/** Categories unseen in training are pooled into one bin the reference expects to be empty */
+function categoricalDrift(name: string, reference: CategoricalReference, values: string[]): DistributionDrift {
+  const categories = Object.keys(reference.categories);
+  const counts = new Map<string, number>(categories.map((category) => [category, 0]));
+  let other = 0;
+  for (const value of values) {
+    const current = counts.get(value);
+    if (current === undefined) other++;
+    else counts.set(value, current + 1);
+  }
+
+  const labels = other > 0 ? [...categories, OTHER_CATEGORY] : categories;
+  const expected = labels.map((label) => reference.categories[label] ?? 0);
+  return distribution(name, expected, [...counts.values(), ...(other > 0 ? [other] : [])], labels);
+}
+
+const byDrift = (a: DistributionDrift, b: DistributionDrift) => (b.psi ?? -1) - (a.psi ?? -1);
+
+/**
+ * Score PSI and per-feature CSI. Features are those of `featureColumns` the
+ * reference describes; missing values are left out on both sides.
+ */
+export function computeDrift(
+  reference: ReferenceDistribution,
+  featureColumns: readonly string[],
+  observations: DriftObservation[],
+): Pick<DriftReport, 'total' | 'score' | 'features'> {
+  const scores: number[] = [];
+  for (const o of observations) if (o.probability !== null) scores.push(o.probability);
+
+  const features = featureColumns
+    .filter((column) => column in reference.features)
+    .map((column) => {
+      const columnReference = reference.features[column];
+      const values = observations
+        .map((o) => o.values[column])
+        .filter((value) => value !== undefined && !(typeof value === 'number' && !Number.isFinite(value)));
+      return 'categories' in columnReference
+        ? categoricalDrift(column, columnReference, values.map(String))
+        : numericDrift(column, columnReference, values.map(Number));
+    })
+    .sort(byDrift);
+
+  return {
+    total: observations.length,
+    score: numericDrift('score', reference.score, scores),
+    features,
+  };
+}
@@ -0,0 +1,74 @@
+import type { DriftObservation } from './drift.ts';
+import { decryptInput, loadDataKey } from './fieldEncryption.ts';
+import { requireAdminClient } from './supabaseAdmin.ts';
+import type { ModelVersion } from '../predict-risk/models/registry.ts';
+import { preprocess } from '../predict-risk/preprocessing.ts';
+import type { ApplicantData, EngineName } from '../predict-risk/types.ts';
+
+const adminClient = () => requireAdminClient('drift monitoring');
+
+const CHUNK_SIZE = 1000;
+/** Predictions read per report; a longer period is reported as truncated */
+export const MAX_REPORT_ROWS = 50_000;
+
+interface ObservationRow {
+  input: Record<string, unknown>;
+  probability: number;
+  engine: EngineName;
+  purged_at: string | null;
+}
+
+/**
+ * The feature values a stored input gave the model, before encoding. Fields
+ * stored without the key decrypt to null and are dropped, so they count as
+ * missing rather than as a zero.
+ */
+async function featureValues(row: ObservationRow, model: ModelVersion, key: CryptoKey) {
+  if (row.purged_at) return {};
+  const input = await decryptInput(row.input, key);
+  const data = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== null)) as unknown as ApplicantData;
+  return preprocess(data, model).values;
+}
+
+/**
+ * Predictions the version scored in [from, to), with their feature values.
+ * Purged predictions keep their score but contribute no features.
+ */
+export async function loadObservations(
+  from: string,
+  to: string,
+  model: ModelVersion,
+): Promise<{ observations: DriftObservation[]; truncated: boolean }> {
+  const key = await loadDataKey();
+  const observations: DriftObservation[] = [];
+
+  for (let offset = 0; offset < MAX_REPORT_ROWS; offset += CHUNK_SIZE) {
+    const { data, error } = await adminClient()
+      .from('predictions')
+      .select('input, probability, engine, purged_at')
+      .eq('model_version', model.id)
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at')
+      .range(offset, offset + CHUNK_SIZE - 1);
+    if (error) throw error;
+
+    const rows = data as unknown as ObservationRow[];
+    for (const row of rows) {
+      observations.push({
+        probability: row.engine === 'lightgbm-onnx' ? row.probability : null,
+        values: await featureValues(row, model, key),
+      });
+    }
+    if (rows.length < CHUNK_SIZE) return { observations, truncated: false };
+  }
+
+  const { count, error } = await adminClient()
+    .from('predictions')
+    .select('id', { count: 'exact', head: true })
+    .eq('model_version', model.id)
+    .gte('created_at', from)
+    .lt('created_at', to);
+  if (error) throw error;
+  return { observations, truncated: (count ?? 0) > MAX_REPORT_ROWS };
+}
@@ -0,0 +1,16 @@
+import type { FieldIssue } from './applicantSchema.ts';
+
+/**
+ * Error that maps to a specific HTTP status. Anything else thrown inside a
+ * handler is reported as a 500.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly fields?: FieldIssue[],
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * How a score was arrived at, as predict-risk returns it and the web client
+ * charts it. Shared so the waterfall and the scoring function cannot drift.
+ */
+
+/**
+ * Signed effect of one input on the score, in probability points.
+ * Positive values push the applicant towards default. `Value` widens to
+ * include null for explanations read back from storage, where a value
+ * withheld at storage time reads as null.
+ */
+export interface FeatureContribution<Value = number | string> {
+  feature: string;
+  value: Value;
+  impact: number;
+}
+
+/**
+ * Per-prediction explanation.
+ * - `rule-points`: heuristic engine; each fired rule's additive points
+ * - `baseline-ablation`: ONNX engine; change in the raw model probability when
+ *   each supplied feature is reset to its baseline (median, or missing).
+ *   Contributions need not sum exactly to `output_value - base_value` because
+ *   tree models have interactions. Unlike SHAP values they are one feature
+ *   at a time, and `base_value` and `output_value` are raw model output,
+ *   before the calibration that gives `probability`.
+ */
+export interface Explanation<Value = number | string> {
+  method: 'rule-points' | 'baseline-ablation';
+  base_value: number;
+  output_value: number;
+  /** Sorted by absolute impact, largest first */
+  contributions: FeatureContribution<Value>[];
+}
@@ -0,0 +1,60 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { ageBand, computeFairness, type FairnessObservation } from './fairness.ts';
+
+const thresholds = { min_disparate_impact: 0.8, max_mean_pd_gap: 0.05, min_group_size: 10 };
+
+/** `count` applicants of one gender, the first `approved` of them approved */
+const group = (gender: string, count: number, approved: number, probability: number, age: number | null = 30) =>
+  Array.from({ length: count }, (_, i): FairnessObservation => ({
+    gender,
+    age,
+    probability,
+    bucket: 'A',
+    decision: i < approved ? 'approve' : 'decline',
+  }));
+
+Deno.test('age bands run from each edge to one below the next', () => {
+  assertEquals([17, 18, 24, 25, 64, 65, 90].map(ageBand), ['<18', '18–24', '18–24', '25–34', '55–64', '65+', '65+']);
+});
+
+Deno.test('a group approved at under four-fifths the reference rate is alerted', () => {
+  const { dimensions, alerts } = computeFairness([...group('F', 10, 10, 0.03), ...group('M', 10, 6, 0.04)], thresholds);
+  const gender = dimensions.find((d) => d.dimension === 'gender')!;
+
+  assertEquals(gender.reference_group, 'F');
+  assertEquals(gender.groups.map((g) => [g.group, g.approval_rate, g.disparate_impact]), [['F', 1, 1], ['M', 0.6, 0.6]]);
+  assertEquals(alerts, [{
+    dimension: 'gender',
+    group: 'M',
+    kind: 'disparate_impact',
+    message: 'M is approved at 0.60× the rate of F (60.0% vs 100.0%)',
+  }]);
+});
+
+Deno.test('a group too small to alert on is reported but is neither the reference nor alerted', () => {
+  const observations = [...group('F', 10, 8, 0.03), ...group('M', 10, 7, 0.03), ...group('XNA', 2, 2, 0.03, null)];
+  const { dimensions, alerts } = computeFairness(observations, thresholds);
+  const [gender, age] = dimensions;
+
+  assertEquals(gender.reference_group, 'F');
+  assertEquals(gender.groups.find((g) => g.group === 'XNA')!.disparate_impact, 1.25);
+  assertEquals(age.excluded, 2);
+  assertEquals(alerts, []);
+});
+
+Deno.test('disparate impact is left out when the reference group has no approvals', () => {
+  const { dimensions, alerts } = computeFairness([...group('F', 10, 0, 0.03), ...group('M', 10, 0, 0.03)], thresholds);
+  assertEquals(dimensions[0].groups.map((g) => g.disparate_impact), [null, null]);
+  assertEquals(alerts, []);
+});
+
+Deno.test('a mean PD gap wider than the threshold is alerted once per dimension', () => {
+  const { alerts } = computeFairness([...group('F', 10, 8, 0.03), ...group('M', 10, 8, 0.1)], thresholds);
+  assertEquals(alerts, [{
+    dimension: 'gender',
+    group: null,
+    kind: 'mean_pd_gap',
+    message: 'Mean PD ranges from 3.0% (F) to 10.0% (M)',
+  }]);
+});
@@ -0,0 +1,199 @@
+import { z } from 'zod';
+
+import { toFieldIssues, type ValidationResult } from './applicantSchema.ts';
+import type { Decision } from './decisionPolicy.ts';
+
+/**
+ * Fairness monitoring across gender and age band. Shared by the
+ * fairness-report edge function, which computes the report over stored
+ * predictions, and the /fairness page, which renders it and edits the alert
+ * thresholds.
+ */
+
+export const FAIRNESS_DIMENSIONS = ['gender', 'age_band'] as const;
+export type FairnessDimension = (typeof FAIRNESS_DIMENSIONS)[number];
+
+/** Lower bounds of the age bands reported */
+export const AGE_BAND_EDGES = [18, 25, 35, 45, 55, 65] as const;
+
+export interface FairnessThresholds {
+  /** Alert when a group's approval rate is below this share of the best-treated group's (four-fifths rule: 0.8) */
+  min_disparate_impact: number;
+  /** Alert when mean PD differs between groups by more than this, in probability points */
+  max_mean_pd_gap: number;
+  /** Groups smaller than this are reported but never alerted on */
+  min_group_size: number;
+}
+
+export const DEFAULT_FAIRNESS_THRESHOLDS: FairnessThresholds = {
+  min_disparate_impact: 0.8,
+  max_mean_pd_gap: 0.05,
+  min_group_size: 30,
+};
+
+/** One stored prediction, reduced to what the report needs */
+export interface FairnessObservation {
+  gender: string | null;
+  age: number | null;
+  probability: number;
+  bucket: string;
+  /** The reviewer's decision for a reviewed referral, otherwise the policy's */
+  decision: Decision | null;
+}
+
+export interface GroupStats {
+  group: string;
+  count: number;
+  approval_rate: number;
+  mean_pd: number;
+  /** Share of the group in each bucket */
+  buckets: Record<string, number>;
+  /** Approval rate relative to the reference group's; null when that rate is 0 */
+  disparate_impact: number | null;
+}
+
+export interface FairnessAlert {
+  dimension: FairnessDimension;
+  group: string | null;
+  kind: 'disparate_impact' | 'mean_pd_gap';
+  message: string;
+}
+
+export interface DimensionReport {
+  dimension: FairnessDimension;
+  /** The eligible group with the highest approval rate */
+  reference_group: string | null;
+  groups: GroupStats[];
+  /** Predictions whose attribute is unknown, e.g. stored without the encryption key */
+  excluded: number;
+}
+
+export interface FairnessReport {
+  from: string;
+  to: string;
+  total: number;
+  /** True when the period held more predictions than the report reads */
+  truncated: boolean;
+  thresholds: FairnessThresholds;
+  dimensions: DimensionReport[];
+  alerts: FairnessAlert[];
+}
+
+export const fairnessThresholdsSchema = z
+  .object({
+    min_disparate_impact: z
+      .number({ required_error: 'Required', invalid_type_error: 'Must be a number' })
+      .gt(0, 'Must be greater than 0')
+      .max(1, 'Must be at most 1'),
+    max_mean_pd_gap: z
+      .number({ required_error: 'Required', invalid_type_error: 'Must be a number' })
+      .gt(0, 'Must be greater than 0')
+      .max(1, 'Must be at most 1'),
+    min_group_size: z
+      .number({ required_error: 'Required', invalid_type_error: 'Must be a number' })
+      .int('Must be a whole number')
+      .min(1, 'Must be at least 1'),
+  })
+  .strict('Unknown field');
+
+/** Validate a thresholds change, collecting every offending field */
+export function validateFairnessThresholds(input: unknown): ValidationResult<FairnessThresholds> {
+  const parsed = fairnessThresholdsSchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as FairnessThresholds };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
+
+export function ageBand(age: number): string {
+  const i = AGE_BAND_EDGES.filter((edge) => age >= edge).length - 1;
+  if (i === -1) return `<${AGE_BAND_EDGES[0]}`;
+  return i === AGE_BAND_EDGES.length - 1 ? `${AGE_BAND_EDGES[i]}+` : `${AGE_BAND_EDGES[i]}–${AGE_BAND_EDGES[i + 1] - 1}`;
+}
+
+const groupOf = (dimension: FairnessDimension, o: FairnessObservation): string | null =>
+  dimension === 'gender' ? o.gender : o.age === null ? null : ageBand(o.age);
+
+function dimensionReport(dimension: FairnessDimension, observations: FairnessObservation[], minGroupSize: number): DimensionReport {
+  const byGroup = new Map<string, FairnessObservation[]>();
+  let excluded = 0;
+  for (const o of observations) {
+    const group = groupOf(dimension, o);
+    if (group === null) {
+      excluded++;
+      continue;
+    }
+    const members = byGroup.get(group);
+    if (members) members.push(o);
+    else byGroup.set(group, [o]);
+  }
+
+  const groups = [...byGroup.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([group, members]): GroupStats => {
+      const buckets: Record<string, number> = {};
+      for (const { bucket } of members) buckets[bucket] = (buckets[bucket] ?? 0) + 1 / members.length;
+      return {
+        group,
+        count: members.length,
+        approval_rate: members.filter((o) => o.decision === 'approve').length / members.length,
+        mean_pd: members.reduce((sum, o) => sum + o.probability, 0) / members.length,
+        buckets,
+        disparate_impact: null,
+      };
+    });
+
+  const reference = groups
+    .filter((g) => g.count >= minGroupSize)
+    .reduce<GroupStats | null>((best, g) => (best === null || g.approval_rate > best.approval_rate ? g : best), null);
+  if (reference && reference.approval_rate > 0) {
+    for (const g of groups) g.disparate_impact = g.approval_rate / reference.approval_rate;
+  }
+
+  return { dimension, reference_group: reference?.group ?? null, groups, excluded };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function alertsFor(report: DimensionReport, thresholds: FairnessThresholds): FairnessAlert[] {
+  const { dimension } = report;
+  const eligible = report.groups.filter((g) => g.count >= thresholds.min_group_size);
+  const alerts: FairnessAlert[] = eligible
+    .filter((g) => g.disparate_impact !== null && g.disparate_impact < thresholds.min_disparate_impact)
+    .map((g) => ({
+      dimension,
+      group: g.group,
+      kind: 'disparate_impact',
+      message: `${g.group} is approved at ${g.disparate_impact!.toFixed(2)}× the rate of ${report.reference_group} ` +
+        `(${percent(g.approval_rate)} vs ${percent(eligible.find((r) => r.group === report.reference_group)!.approval_rate)})`,
+    }));
+
+  if (eligible.length >= 2) {
+    const sorted = [...eligible].sort((a, b) => a.mean_pd - b.mean_pd);
+    const [lowest, highest] = [sorted[0], sorted[sorted.length - 1]];
+    if (highest.mean_pd - lowest.mean_pd > thresholds.max_mean_pd_gap) {
+      alerts.push({
+        dimension,
+        group: null,
+        kind: 'mean_pd_gap',
+        message: `Mean PD ranges from ${percent(lowest.mean_pd)} (${lowest.group}) to ${percent(highest.mean_pd)} (${highest.group})`,
+      });
+    }
+  }
+  return alerts;
+}
+
+/**
+ * Approval rate, mean PD, bucket distribution and disparate impact per group.
+ * Disparate impact compares each group's approval rate with the group
+ * approved most often among those large enough to alert on.
+ */
+export function computeFairness(
+  observations: FairnessObservation[],
+  thresholds: FairnessThresholds,
+): Pick<FairnessReport, 'total' | 'dimensions' | 'alerts'> {
+  const dimensions = FAIRNESS_DIMENSIONS.map((d) => dimensionReport(d, observations, thresholds.min_group_size));
+  return {
+    total: observations.length,
+    dimensions,
+    alerts: dimensions.flatMap((report) => alertsFor(report, thresholds)),
+  };
+}
@@ -0,0 +1,81 @@
+import { singleRowConfig } from './configStore.ts';
+import type { Decision } from './decisionPolicy.ts';
+import { DEFAULT_FAIRNESS_THRESHOLDS, type FairnessObservation, type FairnessThresholds } from './fairness.ts';
+import { decryptFields, loadDataKey } from './fieldEncryption.ts';
+import { FRIENDLY_COLUMNS } from './homeCredit.ts';
+import { requireAdminClient } from './supabaseAdmin.ts';
+
+const adminClient = () => requireAdminClient('fairness monitoring');
+
+const CHUNK_SIZE = 1000;
+/** Predictions read per report; a longer period is reported as truncated */
+export const MAX_REPORT_ROWS = 50_000;
+
+interface ObservationRow {
+  input: Record<string, unknown>;
+  probability: number;
+  bucket: string;
+  decision: Decision | null;
+  reviews: { decision: Decision } | null;
+}
+
+export const fairnessThresholdsStore = singleRowConfig<FairnessThresholds>({
+  name: 'Fairness thresholds',
+  table: 'fairness_thresholds',
+  columns: 'min_disparate_impact, max_mean_pd_gap, min_group_size',
+  defaults: DEFAULT_FAIRNESS_THRESHOLDS,
+  action: 'fairness.update',
+});
+
+/** A supplied Home Credit column takes precedence, as it does when scoring */
+function attributes(input: Record<string, unknown>): Pick<FairnessObservation, 'gender' | 'age'> {
+  const gender = input.CODE_GENDER ?? input.gender;
+  const age = typeof input.DAYS_BIRTH === 'number' ? FRIENDLY_COLUMNS.age.fromColumn(input.DAYS_BIRTH) : input.age;
+  return {
+    gender: gender === 'M' || gender === 'F' ? gender : null,
+    age: typeof age === 'number' ? age : null,
+  };
+}
+
+/**
+ * Scored predictions created in [from, to) that still hold applicant data,
+ * with gender and age decrypted. Purged predictions have neither and are left
+ * out rather than counted as unknown.
+ */
+export async function loadObservations(from: string, to: string): Promise<{ observations: FairnessObservation[]; truncated: boolean }> {
+  const key = await loadDataKey();
+  const observations: FairnessObservation[] = [];
+
+  for (let offset = 0; offset < MAX_REPORT_ROWS; offset += CHUNK_SIZE) {
+    const { data, error } = await adminClient()
+      .from('predictions')
+      .select('input, probability, bucket, decision, reviews(decision)')
+      .is('purged_at', null)
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at')
+      .range(offset, offset + CHUNK_SIZE - 1);
+    if (error) throw error;
+
+    const rows = data as unknown as ObservationRow[];
+    for (const row of rows) {
+      const input = await decryptFields(row.input, ['gender', 'age', 'CODE_GENDER', 'DAYS_BIRTH'], key);
+      observations.push({
+        ...attributes(input),
+        probability: row.probability,
+        bucket: row.bucket,
+        decision: row.reviews?.decision ?? row.decision,
+      });
+    }
+    if (rows.length < CHUNK_SIZE) return { observations, truncated: false };
+  }
+
+  const { count, error } = await adminClient()
+    .from('predictions')
+    .select('id', { count: 'exact', head: true })
+    .is('purged_at', null)
+    .gte('created_at', from)
+    .lt('created_at', to);
+  if (error) throw error;
+  return { observations, truncated: (count ?? 0) > MAX_REPORT_ROWS };
+}
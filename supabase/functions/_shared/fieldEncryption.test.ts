@@ -0,0 +1,50 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  decryptExplanation,
+  decryptFields,
+  decryptInput,
+  encryptExplanation,
+  encryptInput,
+  isEnvelope,
+} from './fieldEncryption.ts';
+
+const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+const input = { annual_income: 180000, gender: 'F', contract_type: 'Cash loans', REGION_RATING_CLIENT: 2 };
+
+Deno.test('sensitive fields are sealed, the rest stay plain, and all read back', async () => {
+  const stored = await encryptInput(input, key);
+
+  assertEquals(isEnvelope(stored.annual_income), true);
+  assertEquals(isEnvelope(stored.gender), true);
+  assertEquals([stored.contract_type, stored.REGION_RATING_CLIENT], ['Cash loans', 2]);
+  assertEquals(await decryptInput(stored, key), input);
+  assertEquals(await decryptFields(stored, ['gender', 'age'], key), { gender: 'F' });
+});
+
+Deno.test('an envelope moved to another field does not open', async () => {
+  const stored = await encryptInput(input, key);
+  await assertRejects(() => decryptInput({ annual_income: stored.gender }, key));
+});
+
+Deno.test('plain values and legacy keyless envelopes read back as they were stored', async () => {
+  assertEquals(await decryptInput({ annual_income: 180000, gender: { $enc: null } }, key), {
+    annual_income: 180000,
+    gender: null,
+  });
+});
+
+Deno.test('explanation values of sensitive features are sealed but their impacts stay readable', async () => {
+  const explanation = {
+    method: 'baseline-ablation',
+    contributions: [
+      { feature: 'debtToIncome', value: 0.15, impact: 0.02 },
+      { feature: 'REGION_RATING_CLIENT', value: 2, impact: 0.01 },
+    ],
+  };
+  const stored = await encryptExplanation(explanation, key);
+
+  assertEquals(stored.contributions.map((c) => [isEnvelope(c.value), c.impact]), [[true, 0.02], [false, 0.01]]);
+  assertEquals(await decryptExplanation(stored, key), explanation);
+});
@@ -0,0 +1,220 @@
+/**
+ * Field-level encryption of stored applicant data. Sensitive fields of a
+ * prediction's `input`, and the explanation values derived from them, are
+ * stored as `{ "$enc": "v1.<iv>.<ciphertext>" }` envelopes: AES-256-GCM with
+ * the field's path as additional data, so a ciphertext cannot be moved to
+ * another field. Everything else stays queryable in plain JSON.
+ *
+ * The key is the base64-encoded 32 bytes in the APPLICANT_DATA_KEY secret.
+ * Without it nothing is stored or read: a missing key fails the request
+ * rather than dropping the values. Rows written by earlier versions without
+ * a key hold `{ "$enc": null }` envelopes, which read back as null.
+ */
+
+/**
+ * Personal attributes, identifiers, finances and credit history, by friendly
+ * field and Home Credit column. The loan terms are included because, with the
+ * annuity, they reveal income as surely as the income field does. Only the
+ * product (`contract_type` / NAME_CONTRACT_TYPE), which portfolio reports
+ * filter on, and features such as region and document flags stay plain.
+ */
+export const SENSITIVE_FIELDS: ReadonlySet<string> = new Set([
+  'annual_income',
+  'credit_amount',
+  'annuity',
+  'age',
+  'employment_years',
+  'gender',
+  'education',
+  'SK_ID_CURR',
+  'AMT_INCOME_TOTAL',
+  'AMT_CREDIT',
+  'AMT_ANNUITY',
+  'AMT_GOODS_PRICE',
+  'DAYS_BIRTH',
+  'DAYS_EMPLOYED',
+  'DAYS_REGISTRATION',
+  'DAYS_ID_PUBLISH',
+  'CODE_GENDER',
+  'CNT_CHILDREN',
+  'CNT_FAM_MEMBERS',
+  'FLAG_OWN_CAR',
+  'FLAG_OWN_REALTY',
+  'OWN_CAR_AGE',
+  'NAME_EDUCATION_TYPE',
+  'NAME_FAMILY_STATUS',
+  'NAME_INCOME_TYPE',
+  'OCCUPATION_TYPE',
+  'ORGANIZATION_TYPE',
+  // Bureau scores and enquiries are credit history
+  'EXT_SOURCE_1',
+  'EXT_SOURCE_2',
+  'EXT_SOURCE_3',
+  'AMT_REQ_CREDIT_BUREAU_HOUR',
+  'AMT_REQ_CREDIT_BUREAU_DAY',
+  'AMT_REQ_CREDIT_BUREAU_WEEK',
+  'AMT_REQ_CREDIT_BUREAU_MON',
+  'AMT_REQ_CREDIT_BUREAU_QRT',
+  'AMT_REQ_CREDIT_BUREAU_YEAR',
+]);
+
+// Heuristic-engine rules whose values reveal a sensitive field; ratios reveal income
+const SENSITIVE_EXPLANATION_FEATURES: ReadonlySet<string> = new Set([
+  ...SENSITIVE_FIELDS,
+  'employment',
+  'creditToIncome',
+  'debtToIncome',
+]);
+
+const FORMAT_VERSION = 'v1';
+const IV_BYTES = 12;
+
+export interface Envelope {
+  $enc: string | null;
+}
+
+export interface StoredContribution {
+  feature: string;
+  value: unknown;
+  impact: number;
+}
+
+/** An explanation as stored, whose contribution values may be sealed */
+export interface StoredExplanation {
+  contributions: StoredContribution[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+function readSecret(): Uint8Array<ArrayBuffer> | null {
+  const secret = Deno.env.get('APPLICANT_DATA_KEY');
+  if (!secret) return null;
+  const raw = fromBase64(secret);
+  if (raw.length !== 32) {
+    throw new Error('APPLICANT_DATA_KEY must be 32 bytes, base64-encoded');
+  }
+  return raw;
+}
+
+let dataKey: Promise<CryptoKey> | null = null;
+let hashKey: Promise<CryptoKey | null> | null = null;
+
+/** The data key, imported once per instance; rejects when the secret is not set */
+export function loadDataKey(): Promise<CryptoKey> {
+  dataKey ??= (async () => {
+    const raw = readSecret();
+    if (!raw) {
+      throw new Error('APPLICANT_DATA_KEY not set, applicant data cannot be stored or read');
+    }
+    return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  })();
+  return dataKey;
+}
+
+/**
+ * An HMAC key derived from the data key, for pseudonymising values in logs.
+ * Being secret, it keeps low-cardinality values such as gender from being
+ * recovered by hashing every candidate.
+ */
+export function loadHashKey(): Promise<CryptoKey | null> {
+  hashKey ??= (async () => {
+    const raw = readSecret();
+    if (!raw) return null;
+    const base = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode('log-pseudonyms') },
+      base,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign'],
+    );
+  })();
+  return hashKey;
+}
+
+export const isEnvelope = (value: unknown): value is Envelope =>
+  value !== null && typeof value === 'object' && '$enc' in value;
+
+async function seal(key: CryptoKey, path: string, value: unknown): Promise<Envelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(path) },
+    key,
+    encoder.encode(JSON.stringify(value)),
+  );
+  return { $enc: `${FORMAT_VERSION}.${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}` };
+}
+
+/** Plain values, e.g. from rows stored before encryption, are returned as they are */
+async function open(key: CryptoKey, path: string, value: unknown): Promise<unknown> {
+  if (!isEnvelope(value)) return value;
+  if (value.$enc === null) return null;
+
+  const [version, iv, ciphertext] = value.$enc.split('.');
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported encryption format ${version} for ${path}`);
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: encoder.encode(path) },
+    key,
+    fromBase64(ciphertext),
+  );
+  return JSON.parse(decoder.decode(plaintext));
+}
+
+/** A copy of the applicant payload with its sensitive fields sealed */
+export async function encryptInput(input: Record<string, unknown>, key: CryptoKey) {
+  const entries = await Promise.all(
+    Object.entries(input).map(async ([field, value]) => [
+      field,
+      SENSITIVE_FIELDS.has(field) ? await seal(key, `input.${field}`, value) : value,
+    ]),
+  );
+  return Object.fromEntries(entries) as Record<string, unknown>;
+}
+
+export async function decryptInput(input: Record<string, unknown>, key: CryptoKey) {
+  const entries = await Promise.all(
+    Object.entries(input).map(async ([field, value]) => [field, await open(key, `input.${field}`, value)]),
+  );
+  return Object.fromEntries(entries) as Record<string, unknown>;
+}
+
+/** A copy of the explanation with the values of sensitive features sealed; impacts stay readable */
+export async function encryptExplanation<T extends StoredExplanation>(
+  explanation: T,
+  key: CryptoKey,
+): Promise<Omit<T, 'contributions'> & StoredExplanation> {
+  const contributions = await Promise.all(
+    explanation.contributions.map(async (c) =>
+      SENSITIVE_EXPLANATION_FEATURES.has(c.feature)
+        ? { ...c, value: await seal(key, `explanation.${c.feature}`, c.value) }
+        : c
+    ),
+  );
+  return { ...explanation, contributions };
+}
+
+export async function decryptExplanation<T extends StoredExplanation>(
+  explanation: T,
+  key: CryptoKey,
+): Promise<Omit<T, 'contributions'> & StoredExplanation> {
+  const contributions = await Promise.all(
+    explanation.contributions.map(async (c) => ({ ...c, value: await open(key, `explanation.${c.feature}`, c.value) })),
+  );
+  return { ...explanation, contributions };
+}
+
+/** Just the named input fields, decrypted; for reports that need a few attributes of many rows */
+export async function decryptFields(input: Record<string, unknown>, fields: readonly string[], key: CryptoKey) {
+  const entries = await Promise.all(
+    fields
+      .filter((field) => field in input)
+      .map(async (field) => [field, await open(key, `input.${field}`, input[field])]),
+  );
+  return Object.fromEntries(entries) as Record<string, unknown>;
+}
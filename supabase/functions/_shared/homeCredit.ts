@@ -0,0 +1,244 @@
+/**
+ * Typed definitions for the Home Credit application columns listed in each
+ * model version's `artifacts_meta.json` `feature_columns`. Callers with richer bureau data
+ * may send any subset of these alongside the friendly applicant fields.
+ */
+
+// Allowed values for each categorical column, as they appear in application_train.csv
+export const HOME_CREDIT_CATEGORIES = {
+  NAME_CONTRACT_TYPE: ["Cash loans", "Revolving loans"],
+  CODE_GENDER: ["M", "F", "XNA"],
+  FLAG_OWN_CAR: ["Y", "N"],
+  FLAG_OWN_REALTY: ["Y", "N"],
+  NAME_TYPE_SUITE: [
+    "Unaccompanied", "Family", "Spouse, partner", "Children", "Other_A", "Other_B",
+    "Group of people",
+  ],
+  NAME_INCOME_TYPE: [
+    "Working", "Commercial associate", "Pensioner", "State servant", "Unemployed", "Student",
+    "Businessman", "Maternity leave",
+  ],
+  NAME_EDUCATION_TYPE: [
+    "Secondary / secondary special", "Higher education", "Incomplete higher", "Lower secondary",
+    "Academic degree",
+  ],
+  NAME_FAMILY_STATUS: ["Single / not married", "Married", "Civil marriage", "Widow", "Separated", "Unknown"],
+  NAME_HOUSING_TYPE: [
+    "House / apartment", "Rented apartment", "With parents", "Municipal apartment",
+    "Office apartment", "Co-op apartment",
+  ],
+  OCCUPATION_TYPE: [
+    "Laborers", "Core staff", "Accountants", "Managers", "Drivers", "Sales staff", "Cleaning staff",
+    "Cooking staff", "Private service staff", "Medicine staff", "Security staff",
+    "High skill tech staff", "Waiters/barmen staff", "Low-skill Laborers", "Realty agents",
+    "Secretaries", "IT staff", "HR staff",
+  ],
+  WEEKDAY_APPR_PROCESS_START: ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY"],
+  ORGANIZATION_TYPE: [
+    "Business Entity Type 1", "Business Entity Type 2", "Business Entity Type 3", "Self-employed",
+    "Other", "XNA", "Government", "Military", "Police", "Security Ministries", "Emergency",
+    "Security", "Medicine", "School", "Kindergarten", "University", "Religion", "Culture",
+    "Electricity", "Housing", "Construction", "Agriculture", "Bank", "Insurance", "Realtor",
+    "Legal Services", "Advertising", "Telecom", "Mobile", "Postal", "Services", "Cleaning", "Hotel",
+    "Restaurant", "Industry: type 1", "Industry: type 2", "Industry: type 3", "Industry: type 4",
+    "Industry: type 5", "Industry: type 6", "Industry: type 7", "Industry: type 8",
+    "Industry: type 9", "Industry: type 10", "Industry: type 11", "Industry: type 12",
+    "Industry: type 13", "Trade: type 1", "Trade: type 2", "Trade: type 3", "Trade: type 4",
+    "Trade: type 5", "Trade: type 6", "Trade: type 7", "Transport: type 1", "Transport: type 2",
+    "Transport: type 3", "Transport: type 4",
+  ],
+  FONDKAPREMONT_MODE: ["reg oper account", "org spec account", "reg oper spec account", "not specified"],
+  HOUSETYPE_MODE: ["block of flats", "specific housing", "terraced house"],
+  WALLSMATERIAL_MODE: ["Stone, brick", "Block", "Panel", "Mixed", "Wooden", "Others", "Monolithic"],
+  EMERGENCYSTATE_MODE: ["Yes", "No"],
+} as const;
+
+export type CategoricalColumn = keyof typeof HOME_CREDIT_CATEGORIES;
+
+export type HomeCreditCategoricalFeatures = {
+  [Column in CategoricalColumn]: (typeof HOME_CREDIT_CATEGORIES)[Column][number];
+};
+
+// Numeric columns, grouped as in the Home Credit data dictionary
+export const HOME_CREDIT_NUMERIC_COLUMNS = [
+  // Identifiers, counts and amounts
+  'SK_ID_CURR',
+  'CNT_CHILDREN',
+  'AMT_INCOME_TOTAL',
+  'AMT_CREDIT',
+  'AMT_ANNUITY',
+  'AMT_GOODS_PRICE',
+
+  // Region and durations (days are negative, counted back from the application)
+  'REGION_POPULATION_RELATIVE',
+  'DAYS_BIRTH',
+  'DAYS_EMPLOYED',
+  'DAYS_REGISTRATION',
+  'DAYS_ID_PUBLISH',
+  'OWN_CAR_AGE',
+
+  // Contact flags (0/1)
+  'FLAG_MOBIL',
+  'FLAG_EMP_PHONE',
+  'FLAG_WORK_PHONE',
+  'FLAG_CONT_MOBILE',
+  'FLAG_PHONE',
+  'FLAG_EMAIL',
+
+  // Household and region ratings
+  'CNT_FAM_MEMBERS',
+  'REGION_RATING_CLIENT',
+  'REGION_RATING_CLIENT_W_CITY',
+  'HOUR_APPR_PROCESS_START',
+
+  // Address mismatch flags (0/1)
+  'REG_REGION_NOT_LIVE_REGION',
+  'REG_REGION_NOT_WORK_REGION',
+  'LIVE_REGION_NOT_WORK_REGION',
+  'REG_CITY_NOT_LIVE_CITY',
+  'REG_CITY_NOT_WORK_CITY',
+  'LIVE_CITY_NOT_WORK_CITY',
+
+  // External credit bureau scores, normalised to 0-1
+  'EXT_SOURCE_1',
+  'EXT_SOURCE_2',
+  'EXT_SOURCE_3',
+
+  // Normalised building statistics (_AVG / _MODE / _MEDI)
+  'APARTMENTS_AVG',
+  'BASEMENTAREA_AVG',
+  'YEARS_BEGINEXPLUATATION_AVG',
+  'YEARS_BUILD_AVG',
+  'COMMONAREA_AVG',
+  'ELEVATORS_AVG',
+  'ENTRANCES_AVG',
+  'FLOORSMAX_AVG',
+  'FLOORSMIN_AVG',
+  'LANDAREA_AVG',
+  'LIVINGAPARTMENTS_AVG',
+  'LIVINGAREA_AVG',
+  'NONLIVINGAPARTMENTS_AVG',
+  'NONLIVINGAREA_AVG',
+  'APARTMENTS_MODE',
+  'BASEMENTAREA_MODE',
+  'YEARS_BEGINEXPLUATATION_MODE',
+  'YEARS_BUILD_MODE',
+  'COMMONAREA_MODE',
+  'ELEVATORS_MODE',
+  'ENTRANCES_MODE',
+  'FLOORSMAX_MODE',
+  'FLOORSMIN_MODE',
+  'LANDAREA_MODE',
+  'LIVINGAPARTMENTS_MODE',
+  'LIVINGAREA_MODE',
+  'NONLIVINGAPARTMENTS_MODE',
+  'NONLIVINGAREA_MODE',
+  'APARTMENTS_MEDI',
+  'BASEMENTAREA_MEDI',
+  'YEARS_BEGINEXPLUATATION_MEDI',
+  'YEARS_BUILD_MEDI',
+  'COMMONAREA_MEDI',
+  'ELEVATORS_MEDI',
+  'ENTRANCES_MEDI',
+  'FLOORSMAX_MEDI',
+  'FLOORSMIN_MEDI',
+  'LANDAREA_MEDI',
+  'LIVINGAPARTMENTS_MEDI',
+  'LIVINGAREA_MEDI',
+  'NONLIVINGAPARTMENTS_MEDI',
+  'NONLIVINGAREA_MEDI',
+  'TOTALAREA_MODE',
+
+  // Social circle observations and defaults
+  'OBS_30_CNT_SOCIAL_CIRCLE',
+  'DEF_30_CNT_SOCIAL_CIRCLE',
+  'OBS_60_CNT_SOCIAL_CIRCLE',
+  'DEF_60_CNT_SOCIAL_CIRCLE',
+
+  // Last phone change and submitted documents (0/1)
+  'DAYS_LAST_PHONE_CHANGE',
+  'FLAG_DOCUMENT_2',
+  'FLAG_DOCUMENT_3',
+  'FLAG_DOCUMENT_4',
+  'FLAG_DOCUMENT_5',
+  'FLAG_DOCUMENT_6',
+  'FLAG_DOCUMENT_7',
+  'FLAG_DOCUMENT_8',
+  'FLAG_DOCUMENT_9',
+  'FLAG_DOCUMENT_10',
+  'FLAG_DOCUMENT_11',
+  'FLAG_DOCUMENT_12',
+  'FLAG_DOCUMENT_13',
+  'FLAG_DOCUMENT_14',
+  'FLAG_DOCUMENT_15',
+  'FLAG_DOCUMENT_16',
+  'FLAG_DOCUMENT_17',
+  'FLAG_DOCUMENT_18',
+  'FLAG_DOCUMENT_19',
+  'FLAG_DOCUMENT_20',
+  'FLAG_DOCUMENT_21',
+
+  // Credit bureau enquiries per period
+  'AMT_REQ_CREDIT_BUREAU_HOUR',
+  'AMT_REQ_CREDIT_BUREAU_DAY',
+  'AMT_REQ_CREDIT_BUREAU_WEEK',
+  'AMT_REQ_CREDIT_BUREAU_MON',
+  'AMT_REQ_CREDIT_BUREAU_QRT',
+  'AMT_REQ_CREDIT_BUREAU_YEAR',
+] as const;
+
+export type HomeCreditNumericFeatures = Record<(typeof HOME_CREDIT_NUMERIC_COLUMNS)[number], number>;
+
+export type HomeCreditFeatures = HomeCreditNumericFeatures & HomeCreditCategoricalFeatures;
+
+/**
+ * Days per year when converting the DAYS_* columns to and from years. Scoring,
+ * fairness reports and CSV mapping share it, so an applicant's age falls in
+ * the same band wherever it is derived.
+ */
+export const DAYS_PER_YEAR = 365;
+
+export const MONTHS_PER_YEAR = 12;
+
+type NumericColumn = (typeof HOME_CREDIT_NUMERIC_COLUMNS)[number];
+
+interface FriendlyColumn {
+  column: NumericColumn;
+  toColumn: (value: number) => number;
+  fromColumn: (value: number) => number;
+}
+
+const unchanged = (value: number) => value;
+
+/**
+ * The numeric friendly fields and their Home Credit columns, with the
+ * conversion each way. Scoring converts to the columns and CSV import converts
+ * back, so both use these. `annuity` is the monthly instalment, but
+ * AMT_ANNUITY is yearly like AMT_INCOME_TOTAL. Ages and durations are in
+ * years, but the DAYS_* columns count negative days back from the
+ * application. 365243 is Home Credit's DAYS_EMPLOYED placeholder for
+ * applicants not in employment.
+ */
+export const FRIENDLY_COLUMNS = {
+  annual_income: { column: 'AMT_INCOME_TOTAL', toColumn: unchanged, fromColumn: unchanged },
+  credit_amount: { column: 'AMT_CREDIT', toColumn: unchanged, fromColumn: unchanged },
+  annuity: {
+    column: 'AMT_ANNUITY',
+    toColumn: (monthly) => monthly * MONTHS_PER_YEAR,
+    fromColumn: (yearly) => yearly / MONTHS_PER_YEAR,
+  },
+  age: {
+    column: 'DAYS_BIRTH',
+    toColumn: (years) => -Math.round(years * DAYS_PER_YEAR),
+    fromColumn: (days) => -days / DAYS_PER_YEAR,
+  },
+  employment_years: {
+    column: 'DAYS_EMPLOYED',
+    toColumn: (years) => -Math.round(years * DAYS_PER_YEAR),
+    fromColumn: (days) => (days > 0 ? 0 : -days / DAYS_PER_YEAR),
+  },
+} satisfies Record<string, FriendlyColumn>;
+
+export function isCategoricalColumn(column: string): column is CategoricalColumn {
+  return column in HOME_CREDIT_CATEGORIES;
+}
@@ -0,0 +1,55 @@
+import { HttpError } from './errors.ts';
+
+/** Request and response helpers shared by the edge functions */
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+export async function readJsonObject(req: Request): Promise<Record<string, unknown>> {
+  const body = await req.json().catch(() => {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  });
+  if (body === null || typeof body !== 'object') {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body;
+}
+
+/** One end of a report period, as an ISO timestamp; `fallback` when the body leaves it out */
+export function readTimestamp(body: Record<string, unknown>, field: 'from' | 'to', fallback: Date): string {
+  const value = body[field];
+  if (value === undefined || value === null) return fallback.toISOString();
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new HttpError(422, 'Invalid report period', [{ field, message: 'Must be an ISO date' }]);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Report a failure as `{ error, details, fields? }`: HttpErrors keep their
+ * status and field list, anything else is logged and reported as a 500.
+ */
+export function errorResponse(error: unknown, functionName: string, details: string): Response {
+  const status = error instanceof HttpError ? error.status : 500;
+  if (status >= 500) {
+    console.error(`Error in ${functionName} function:`, error);
+  }
+  return jsonResponse(
+    {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      details,
+      ...(error instanceof HttpError && error.fields ? { fields: error.fields } : {}),
+    },
+    status,
+  );
+}
@@ -0,0 +1,42 @@
+import lgbmV1Meta from '../predict-risk/models/lgbm-v1/artifacts_meta.json' with { type: 'json' };
+
+/**
+ * What the app may know about the deployable model versions: their ids,
+ * training columns and bucket cutoffs, from each version's
+ * `artifacts_meta.json`. The registry (`predict-risk/models/registry.ts`)
+ * adds the artifacts only edge functions load. This module is bundled into
+ * the browser, so it must not import those artifacts or build file URLs.
+ */
+
+export interface ModelCutoffs {
+  A: number;
+  B: number;
+  C: number;
+}
+
+export interface ModelSummary {
+  /** Stable id reported as `model_version` with every score */
+  id: string;
+  description: string;
+  /** Column order the model was trained on */
+  featureColumns: string[];
+  /** Bucket cutoffs the model was calibrated against */
+  cutoffs: ModelCutoffs;
+}
+
+/** One entry per version in the registry, in the same order */
+export const MODEL_SUMMARIES: ModelSummary[] = [
+  {
+    id: 'lgbm-v1',
+    description: 'LightGBM on Home Credit application data, isotonic calibration',
+    featureColumns: lgbmV1Meta.feature_columns,
+    cutoffs: lgbmV1Meta.cutoffs,
+  },
+];
+
+/** Champion used until an admin configures routing */
+export const DEFAULT_CHAMPION_ID = 'lgbm-v1';
+
+export const DEFAULT_CHAMPION_SUMMARY: ModelSummary = MODEL_SUMMARIES.find(
+  (summary) => summary.id === DEFAULT_CHAMPION_ID,
+)!;
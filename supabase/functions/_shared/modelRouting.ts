@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+import { toFieldIssues, type ValidationResult } from './applicantSchema.ts';
+import { DEFAULT_CHAMPION_ID, MODEL_SUMMARIES } from './modelCatalog.ts';
+
+/**
+ * Champion/challenger routing between registered model versions. Shared by
+ * predict-risk, which routes each request, and the admin UI, which edits it.
+ */
+
+export type ModelRole = 'champion' | 'challenger';
+
+export interface ModelRouting {
+  champion: string;
+  challenger: string | null;
+  /** Percentage of requests (0–100) whose returned score comes from the challenger */
+  challenger_traffic: number;
+}
+
+export const DEFAULT_ROUTING: ModelRouting = {
+  champion: DEFAULT_CHAMPION_ID,
+  challenger: null,
+  challenger_traffic: 0,
+};
+
+const MODEL_IDS = MODEL_SUMMARIES.map((version) => version.id);
+
+const modelId = () =>
+  z.string({ required_error: 'Required' }).refine((id) => MODEL_IDS.includes(id), 'Unknown model version');
+
+export const modelRoutingSchema = z
+  .object({
+    champion: modelId(),
+    challenger: modelId().nullable(),
+    challenger_traffic: z.number().min(0, 'Must be at least 0').max(100, 'Must be at most 100'),
+  })
+  .strict('Unknown field')
+  .superRefine((routing, ctx) => {
+    if (routing.challenger === routing.champion) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['challenger'], message: 'Must differ from the champion' });
+    }
+    if (routing.challenger === null && routing.challenger_traffic > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['challenger_traffic'], message: 'Requires a challenger' });
+    }
+  });
+
+/** Validate a routing change, collecting every offending field */
+export function validateModelRouting(input: unknown): ValidationResult<ModelRouting> {
+  const parsed = modelRoutingSchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as ModelRouting };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
+
+/**
+ * Pick the version whose score is returned. Routing is keyed on the input
+ * hash rather than chance, so re-submitting an applicant reaches the same
+ * version and replays the same decision.
+ */
+export function routeByHash(routing: ModelRouting, inputHash: string): ModelRole {
+  if (!routing.challenger) return 'champion';
+  const slot = (parseInt(inputHash.slice(0, 8), 16) / 0x1_0000_0000) * 100;
+  return slot < routing.challenger_traffic ? 'challenger' : 'champion';
+}
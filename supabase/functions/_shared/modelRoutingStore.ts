@@ -0,0 +1,15 @@
+import { singleRowConfig } from './configStore.ts';
+import { DEFAULT_ROUTING, type ModelRouting } from './modelRouting.ts';
+
+/**
+ * The configured champion/challenger routing, or the registry's default
+ * champion when none is stored. A lookup failure keeps the routing that last
+ * loaded, and without one scoring is refused.
+ */
+export const routingStore = singleRowConfig<ModelRouting>({
+  name: 'Model routing',
+  table: 'model_routing',
+  columns: 'champion, challenger, challenger_traffic',
+  defaults: DEFAULT_ROUTING,
+  action: 'model_routing.update',
+});
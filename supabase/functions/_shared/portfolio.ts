@@ -0,0 +1,164 @@
+import type { Decision } from './decisionPolicy.ts';
+
+/**
+ * Portfolio analytics over stored predictions: volume, bucket mix and mean PD
+ * over time, and breakdowns by product and education. Shared by the
+ * portfolio-analytics edge function, which computes the report, and the
+ * /dashboard page, which charts it.
+ */
+
+export const GRANULARITIES = ['day', 'week'] as const;
+export type Granularity = (typeof GRANULARITIES)[number];
+
+export const BREAKDOWNS = ['contract_type', 'education'] as const;
+export type Breakdown = (typeof BREAKDOWNS)[number];
+
+/** One stored prediction, reduced to what the report needs */
+export interface PortfolioObservation {
+  created_at: string;
+  probability: number;
+  bucket: string;
+  decision: Decision | null;
+  /** Null once the prediction's applicant data has been purged */
+  contract_type: string | null;
+  education: string | null;
+}
+
+export interface PeriodStats {
+  /** First day of the period (UTC), as YYYY-MM-DD; weeks start on Monday */
+  period: string;
+  count: number;
+  /** Null for a period without predictions */
+  mean_pd: number | null;
+  /** Predictions per bucket */
+  buckets: Record<string, number>;
+}
+
+export interface SegmentStats {
+  segment: string;
+  count: number;
+  share: number;
+  mean_pd: number;
+  approval_rate: number;
+  buckets: Record<string, number>;
+}
+
+export interface BreakdownReport {
+  segments: SegmentStats[];
+  /** Predictions without the attribute: purged, or education stored without the key */
+  unknown: number;
+}
+
+export interface PortfolioReport {
+  from: string;
+  to: string;
+  granularity: Granularity;
+  /** The product filter, or null for every product */
+  contract_type: string | null;
+  total: number;
+  /** True when the period held more predictions than the report reads */
+  truncated: boolean;
+  mean_pd: number | null;
+  approval_rate: number | null;
+  /** Every bucket seen in the period, in name order */
+  buckets: string[];
+  series: PeriodStats[];
+  breakdowns: Record<Breakdown, BreakdownReport>;
+}
+
+const DAY_MS = 86_400_000;
+
+/** Start of the UTC day or ISO week holding `date` */
+export function periodStart(date: Date, granularity: Granularity): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (granularity === 'day') return day;
+  // getUTCDay() is 0 on Sunday; weeks start on Monday
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+function nextPeriod(start: Date, granularity: Granularity): Date {
+  return new Date(start.getTime() + (granularity === 'day' ? 1 : 7) * DAY_MS);
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const mean = (values: number[]) => (values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length);
+
+function countBuckets(observations: PortfolioObservation[]): Record<string, number> {
+  const buckets: Record<string, number> = {};
+  for (const { bucket } of observations) buckets[bucket] = (buckets[bucket] ?? 0) + 1;
+  return buckets;
+}
+
+const approvalRate = (observations: PortfolioObservation[]) =>
+  observations.length === 0 ? null : observations.filter((o) => o.decision === 'approve').length / observations.length;
+
+/** One entry per period from `from` to `to`, including periods without predictions */
+function series(observations: PortfolioObservation[], from: string, to: string, granularity: Granularity): PeriodStats[] {
+  const byPeriod = new Map<string, PortfolioObservation[]>();
+  for (const o of observations) {
+    const key = isoDate(periodStart(new Date(o.created_at), granularity));
+    const members = byPeriod.get(key);
+    if (members) members.push(o);
+    else byPeriod.set(key, [o]);
+  }
+
+  const periods: PeriodStats[] = [];
+  const end = new Date(to).getTime();
+  for (let start = periodStart(new Date(from), granularity); start.getTime() < end; start = nextPeriod(start, granularity)) {
+    const members = byPeriod.get(isoDate(start)) ?? [];
+    periods.push({
+      period: isoDate(start),
+      count: members.length,
+      mean_pd: mean(members.map((o) => o.probability)),
+      buckets: countBuckets(members),
+    });
+  }
+  return periods;
+}
+
+function breakdown(observations: PortfolioObservation[], attribute: Breakdown): BreakdownReport {
+  const bySegment = new Map<string, PortfolioObservation[]>();
+  let unknown = 0;
+  for (const o of observations) {
+    const segment = o[attribute];
+    if (segment === null) {
+      unknown++;
+      continue;
+    }
+    const members = bySegment.get(segment);
+    if (members) members.push(o);
+    else bySegment.set(segment, [o]);
+  }
+
+  const segments = [...bySegment.entries()]
+    .map(([segment, members]): SegmentStats => ({
+      segment,
+      count: members.length,
+      share: members.length / observations.length,
+      mean_pd: mean(members.map((o) => o.probability))!,
+      approval_rate: approvalRate(members)!,
+      buckets: countBuckets(members),
+    }))
+    .sort((a, b) => b.count - a.count);
+  return { segments, unknown };
+}
+
+export function computePortfolio(
+  observations: PortfolioObservation[],
+  from: string,
+  to: string,
+  granularity: Granularity,
+): Pick<PortfolioReport, 'total' | 'mean_pd' | 'approval_rate' | 'buckets' | 'series' | 'breakdowns'> {
+  return {
+    total: observations.length,
+    mean_pd: mean(observations.map((o) => o.probability)),
+    approval_rate: approvalRate(observations),
+    buckets: [...new Set(observations.map((o) => o.bucket))].sort(),
+    series: series(observations, from, to, granularity),
+    breakdowns: {
+      contract_type: breakdown(observations, 'contract_type'),
+      education: breakdown(observations, 'education'),
+    },
+  };
+}
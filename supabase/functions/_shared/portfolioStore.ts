@@ -0,0 +1,71 @@
+import type { Decision } from './decisionPolicy.ts';
+import { decryptFields, loadDataKey } from './fieldEncryption.ts';
+import type { PortfolioObservation } from './portfolio.ts';
+import { requireAdminClient } from './supabaseAdmin.ts';
+
+const CHUNK_SIZE = 1000;
+/** Predictions read per report; a longer period is reported as truncated */
+export const MAX_REPORT_ROWS = 50_000;
+
+// Only the two input fields the breakdowns need are read, not the whole payload
+const COLUMNS =
+  'created_at, probability, bucket, decision, reviews(decision), contract_type:input->>contract_type, education:input->education';
+
+interface ObservationRow {
+  created_at: string;
+  probability: number;
+  bucket: string;
+  decision: Decision | null;
+  reviews: { decision: Decision } | null;
+  contract_type: string | null;
+  education: unknown;
+}
+
+function predictionsIn(from: string, to: string, contractType: string | null, columns: string, head = false) {
+  let query = requireAdminClient('portfolio analytics')
+    .from('predictions')
+    .select(columns, head ? { count: 'exact', head: true } : undefined)
+    .gte('created_at', from)
+    .lt('created_at', to);
+  if (contractType) query = query.eq('input->>contract_type', contractType);
+  return query;
+}
+
+/**
+ * Predictions created in [from, to), optionally for one product, with
+ * education decrypted. Purged predictions are included: their score, bucket
+ * and decision are kept, only the breakdown attributes are gone.
+ */
+export async function loadObservations(
+  from: string,
+  to: string,
+  contractType: string | null,
+): Promise<{ observations: PortfolioObservation[]; truncated: boolean }> {
+  const key = await loadDataKey();
+  const observations: PortfolioObservation[] = [];
+
+  for (let offset = 0; offset < MAX_REPORT_ROWS; offset += CHUNK_SIZE) {
+    const { data, error } = await predictionsIn(from, to, contractType, COLUMNS)
+      .order('created_at')
+      .range(offset, offset + CHUNK_SIZE - 1);
+    if (error) throw error;
+
+    const rows = data as unknown as ObservationRow[];
+    for (const row of rows) {
+      const { education } = await decryptFields({ education: row.education }, ['education'], key);
+      observations.push({
+        created_at: row.created_at,
+        probability: row.probability,
+        bucket: row.bucket,
+        decision: row.reviews?.decision ?? row.decision,
+        contract_type: row.contract_type,
+        education: typeof education === 'string' ? education : null,
+      });
+    }
+    if (rows.length < CHUNK_SIZE) return { observations, truncated: false };
+  }
+
+  const { count, error } = await predictionsIn(from, to, contractType, 'id', true);
+  if (error) throw error;
+  return { observations, truncated: (count ?? 0) > MAX_REPORT_ROWS };
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+import { CONTRACT_TYPES, toFieldIssues, type ApplicantData, type ValidationResult } from './applicantSchema.ts';
+
+/**
+ * Risk-based pricing: expected loss and a suggested interest rate for each
+ * scored applicant. Shared by predict-risk, which prices every score, and
+ * the admin UI, which edits the LGD table and the pricing grid.
+ */
+
+type ContractType = ApplicantData['contract_type'];
+
+/** Annual interest rates, in percent, offered to one bucket */
+export interface PriceBand {
+  bucket: string;
+  min_rate: number;
+  max_rate: number;
+}
+
+export interface PricingConfig {
+  /** Loss given default (0–1) per contract type */
+  lgd: Record<ContractType, number>;
+  /** Keyed by bucket name; buckets without a band get no suggested rate */
+  grid: PriceBand[];
+}
+
+export interface Pricing {
+  /** Exposure at default: the requested credit amount */
+  ead: number;
+  lgd: number;
+  /** PD × LGD × EAD */
+  expected_loss: number;
+  /** Suggested annual rate in percent, or null when the bucket is not on the grid */
+  suggested_rate: number | null;
+  rate_band: { min_rate: number; max_rate: number } | null;
+}
+
+export const DEFAULT_PRICING: PricingConfig = {
+  lgd: { 'Cash loans': 0.45, 'Revolving loans': 0.65 },
+  grid: [
+    { bucket: 'A', min_rate: 9, max_rate: 11 },
+    { bucket: 'B', min_rate: 11, max_rate: 14 },
+    { bucket: 'C', min_rate: 14, max_rate: 19 },
+    { bucket: 'D', min_rate: 19, max_rate: 26 },
+  ],
+};
+
+const MAX_RATE = 100;
+
+const rate = () => z.number({ required_error: 'Required' }).min(0, 'Cannot be negative').max(MAX_RATE, `At most ${MAX_RATE}%`);
+const lgd = () => z.number({ required_error: 'Required' }).min(0, 'Must be at least 0').max(1, 'Must be at most 1');
+
+export const pricingConfigSchema = z
+  .object({
+    lgd: z.object(Object.fromEntries(CONTRACT_TYPES.map((type) => [type, lgd()]))).strict('Unknown contract type'),
+    grid: z.array(
+      z.object({
+        bucket: z.string().trim().min(1, 'Required').max(8, 'At most 8 characters'),
+        min_rate: rate(),
+        max_rate: rate(),
+      }).strict('Unknown field'),
+    ),
+  })
+  .strict('Unknown field')
+  .superRefine(({ grid }, ctx) => {
+    const buckets = new Set<string>();
+    grid.forEach((band, i) => {
+      if (buckets.has(band.bucket)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['grid', i, 'bucket'], message: 'Duplicate bucket' });
+      }
+      buckets.add(band.bucket);
+      if (band.max_rate < band.min_rate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['grid', i, 'max_rate'], message: 'Must be at least the minimum rate' });
+      }
+    });
+  });
+
+/** Validate a pricing change, collecting every offending field */
+export function validatePricingConfig(input: unknown): ValidationResult<PricingConfig> {
+  const parsed = pricingConfigSchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as PricingConfig };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Price one scored applicant. The suggested rate sits inside the bucket's
+ * band in proportion to where the probability falls within the bucket's
+ * range (`bucketRange`), so riskier applicants in a bucket pay more.
+ */
+export function priceApplicant(
+  probability: number,
+  bucket: string,
+  [lower, upper]: [number, number | null],
+  data: Pick<ApplicantData, 'contract_type' | 'credit_amount'>,
+  config: PricingConfig,
+): Pricing {
+  const ead = data.credit_amount;
+  const lgd = config.lgd[data.contract_type];
+  const band = config.grid.find((b) => b.bucket === bucket);
+
+  let suggested_rate: number | null = null;
+  if (band) {
+    const width = (upper ?? 1) - lower;
+    const position = width > 0 ? Math.min(1, Math.max(0, (probability - lower) / width)) : 0;
+    suggested_rate = round2(band.min_rate + position * (band.max_rate - band.min_rate));
+  }
+
+  return {
+    ead,
+    lgd,
+    expected_loss: round2(probability * lgd * ead),
+    suggested_rate,
+    rate_band: band ? { min_rate: band.min_rate, max_rate: band.max_rate } : null,
+  };
+}
@@ -0,0 +1,15 @@
+import { singleRowConfig } from './configStore.ts';
+import { DEFAULT_PRICING, type PricingConfig } from './pricing.ts';
+
+/**
+ * The configured LGD table and pricing grid, or the built-in defaults when
+ * none is stored. A lookup failure keeps the configuration that last loaded,
+ * and without one scoring is refused.
+ */
+export const pricingStore = singleRowConfig<PricingConfig>({
+  name: 'Pricing configuration',
+  table: 'pricing_config',
+  columns: 'lgd, grid',
+  defaults: DEFAULT_PRICING,
+  action: 'pricing.update',
+});
@@ -0,0 +1,46 @@
+import type { ApplicantData } from './applicantSchema.ts';
+import { loadHashKey } from './fieldEncryption.ts';
+
+/**
+ * Log-safe view of an applicant. Numbers are reported as bands and text as a
+ * keyed pseudonym, so log lines can still be grouped and correlated without
+ * carrying the values themselves. Never log ApplicantData directly.
+ */
+
+// Lower bounds of the reported bands, for fields where magnitude is too coarse
+const BANDS: Record<string, number[]> = {
+  age: [18, 25, 35, 45, 55, 65],
+  employment_years: [0, 1, 3, 5, 10, 20],
+};
+
+function band(value: number, edges: number[]): string {
+  const i = edges.findLastIndex((edge) => value >= edge);
+  if (i === -1) return `<${edges[0]}`;
+  return i === edges.length - 1 ? `${edges[i]}+` : `${edges[i]}–${edges[i + 1]}`;
+}
+
+/** Order of magnitude, e.g. 345000 → "1e5–1e6"; the sign is kept for day offsets */
+function magnitude(value: number): string {
+  if (value === 0) return '0';
+  const exponent = Math.floor(Math.log10(Math.abs(value)));
+  return `${value < 0 ? '-' : ''}1e${exponent}–1e${exponent + 1}`;
+}
+
+async function pseudonym(key: CryptoKey | null, field: string, value: string): Promise<string> {
+  if (!key) return '[redacted]';
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${field}=${value}`));
+  return '#' + [...new Uint8Array(digest).slice(0, 6)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function redactApplicant(data: ApplicantData): Promise<Record<string, string>> {
+  const key = await loadHashKey();
+  const entries = await Promise.all(
+    Object.entries(data).map(async ([field, value]) => [
+      field,
+      typeof value === 'number'
+        ? (BANDS[field] ? band(value, BANDS[field]) : magnitude(value))
+        : await pseudonym(key, field, String(value)),
+    ]),
+  );
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+import { toFieldIssues, type ValidationResult } from './applicantSchema.ts';
+
+/**
+ * How long stored applicant data is kept. Shared by the data-retention edge
+ * function and the admin UI. Past the retention period a prediction's input
+ * and explanation are purged; its score, bucket and decision are kept for
+ * monitoring. The purge itself runs in the database
+ * (`purge_applicant_data()`), nightly and on demand.
+ */
+
+export interface RetentionConfig {
+  retention_days: number;
+}
+
+export const MIN_RETENTION_DAYS = 30;
+export const MAX_RETENTION_DAYS = 3650;
+
+/** Also the fallback in purge_applicant_data() */
+export const DEFAULT_RETENTION: RetentionConfig = { retention_days: 730 };
+
+export const retentionSchema = z
+  .object({
+    retention_days: z
+      .number({ required_error: 'Required', invalid_type_error: 'Must be a number' })
+      .int('Must be a whole number of days')
+      .min(MIN_RETENTION_DAYS, `Must be at least ${MIN_RETENTION_DAYS} days`)
+      .max(MAX_RETENTION_DAYS, `Must be at most ${MAX_RETENTION_DAYS} days`),
+  })
+  .strict('Unknown field');
+
+/** Validate a retention change, collecting every offending field */
+export function validateRetention(input: unknown): ValidationResult<RetentionConfig> {
+  const parsed = retentionSchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as RetentionConfig };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
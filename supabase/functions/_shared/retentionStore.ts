@@ -0,0 +1,51 @@
+import type { AuthContext } from './auth.ts';
+import { singleRowConfig } from './configStore.ts';
+import { DEFAULT_RETENTION, type RetentionConfig } from './retention.ts';
+import { requireAdminClient } from './supabaseAdmin.ts';
+
+const adminClient = () => requireAdminClient('data retention');
+
+/** Retention status shown to admins */
+export interface RetentionStatus extends RetentionConfig {
+  /** Predictions past the retention period whose data has not been purged yet */
+  due: number;
+  /** Predictions whose data has been purged */
+  purged: number;
+}
+
+export const retentionStore = singleRowConfig<RetentionConfig>({
+  name: 'Retention period',
+  table: 'data_retention',
+  columns: 'retention_days',
+  defaults: DEFAULT_RETENTION,
+  action: 'retention.update',
+});
+
+export async function retentionStatus(): Promise<RetentionStatus> {
+  const config = await retentionStore.load();
+  const cutoff = new Date(Date.now() - config.retention_days * 86_400_000).toISOString();
+  const [due, purged] = await Promise.all([
+    adminClient()
+      .from('predictions')
+      .select('id', { count: 'exact', head: true })
+      .is('purged_at', null)
+      .lt('created_at', cutoff),
+    adminClient()
+      .from('predictions')
+      .select('id', { count: 'exact', head: true })
+      .not('purged_at', 'is', null),
+  ]);
+  if (due.error) throw due.error;
+  if (purged.error) throw purged.error;
+  return { ...config, due: due.count ?? 0, purged: purged.count ?? 0 };
+}
+
+/** Purge every prediction past the retention period now; the database audits the run */
+export async function purgeExpired({ userId, email }: AuthContext): Promise<number> {
+  const { data, error } = await adminClient().rpc('purge_applicant_data', {
+    _actor_id: userId,
+    _actor_email: email,
+  });
+  if (error) throw error;
+  return data;
+}
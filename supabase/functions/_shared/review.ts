@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+import { toFieldIssues, type ValidationResult } from './applicantSchema.ts';
+import type { Recommendation } from './decisionPolicy.ts';
+
+/**
+ * Manual review of referred applications. Shared by the review-decisions
+ * edge function, which records decisions, and the /review page.
+ */
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+export interface ReviewInput {
+  prediction_id: string;
+  decision: Recommendation;
+  comment: string;
+}
+
+export const reviewSchema = z
+  .object({
+    prediction_id: z.string({ required_error: 'Required' }).uuid('Must be a prediction id'),
+    decision: z.enum(['approve', 'decline'], { errorMap: () => ({ message: 'Must be approve or decline' }) }),
+    comment: z
+      .string({ required_error: 'Required' })
+      .trim()
+      .min(1, 'A comment is required')
+      .max(MAX_COMMENT_LENGTH, `At most ${MAX_COMMENT_LENGTH} characters`),
+  })
+  .strict('Unknown field');
+
+/** Validate an underwriter's decision, collecting every offending field */
+export function validateReview(input: unknown): ValidationResult<ReviewInput> {
+  const parsed = reviewSchema.safeParse(input);
+  if (parsed.success) return { success: true, data: parsed.data as ReviewInput };
+  return { success: false, issues: toFieldIssues(parsed.error) };
+}
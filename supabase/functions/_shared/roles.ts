@@ -0,0 +1,25 @@
+/**
+ * Application roles and what each may do. Shared by the edge functions, which
+ * enforce it, and the web client, which hides what a user cannot use.
+ */
+
+export const APP_ROLES = ['analyst', 'underwriter', 'admin'] as const;
+
+export type AppRole = (typeof APP_ROLES)[number];
+
+export const PERMISSIONS = {
+  score: ['analyst', 'underwriter', 'admin'],
+  batchScore: ['analyst', 'admin'],
+  viewHistory: ['analyst', 'underwriter', 'admin'],
+  review: ['underwriter', 'admin'],
+  manageConfig: ['admin'],
+  viewMonitoring: ['analyst', 'admin'],
+  viewAudit: ['admin'],
+} as const satisfies Record<string, readonly AppRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function can(roles: readonly AppRole[], permission: Permission): boolean {
+  const allowed: readonly AppRole[] = PERMISSIONS[permission];
+  return roles.some((role) => allowed.includes(role));
+}
@@ -0,0 +1,22 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+/**
+ * Service-role client for edge functions. It bypasses RLS, so it must only be
+ * used for writes the function itself is responsible for. Null when the
+ * function runs without Supabase credentials (e.g. plain `deno run`).
+ */
+export const supabaseAdmin: SupabaseClient | null =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : null;
+
+/** The service-role client, for stores that cannot work without it; `feature` names what is unavailable */
+export function requireAdminClient(feature: string): SupabaseClient {
+  if (!supabaseAdmin) {
+    throw new Error(`Supabase credentials missing, ${feature} unavailable`);
+  }
+  return supabaseAdmin;
+}
@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { recordAudit } from '../_shared/audit.ts';
+import { authenticate, requirePermission } from '../_shared/auth.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { decryptExplanation, decryptInput, loadDataKey, type StoredExplanation } from '../_shared/fieldEncryption.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+
+const MAX_IDS = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Stored applicant data with its sensitive fields decrypted. The key never
+ * leaves the edge functions, so this is the only way to read them back.
+ *   POST – `{ prediction_ids }`, at most 100 (analyst, underwriter, admin)
+ * Every read is audited. Purged predictions come back with an empty input.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const auth = await authenticate(req);
+    requirePermission(auth, 'viewHistory');
+    if (!supabaseAdmin) {
+      throw new Error('Supabase credentials missing, applicant data unavailable');
+    }
+
+    const { prediction_ids: ids } = await readJsonObject(req);
+    if (!Array.isArray(ids) || ids.length > MAX_IDS || !ids.every((id) => typeof id === 'string' && UUID_PATTERN.test(id))) {
+      throw new HttpError(400, `prediction_ids must be an array of at most ${MAX_IDS} prediction ids`);
+    }
+    if (ids.length === 0) return jsonResponse({ predictions: [] });
+
+    const { data, error } = await supabaseAdmin
+      .from('predictions')
+      .select('id, input, explanation, purged_at')
+      .in('id', ids);
+    if (error) throw error;
+
+    const key = await loadDataKey();
+    const predictions = await Promise.all(data.map(async (row) => ({
+      id: row.id,
+      input: await decryptInput(row.input as Record<string, unknown>, key),
+      explanation: row.explanation ? await decryptExplanation(row.explanation as StoredExplanation, key) : null,
+      purged: row.purged_at !== null,
+    })));
+
+    await recordAudit(auth, req, {
+      action: 'applicant_data.read',
+      resource: 'predictions',
+      details: { prediction_ids: predictions.map((p) => p.id) },
+    });
+    return jsonResponse({ predictions });
+  } catch (error) {
+    return errorResponse(error, 'applicant-data', 'Failed to read applicant data');
+  }
+});
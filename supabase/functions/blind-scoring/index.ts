@@ -0,0 +1,17 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { validateBlindScoring } from '../_shared/blindScoring.ts';
+import { blindScoringStore } from '../_shared/blindScoringStore.ts';
+import { configHandler } from '../_shared/configHandler.ts';
+
+/**
+ * Products scored without protected attributes.
+ *   GET – the current configuration (any role that scores)
+ *   PUT – replace it with `{ products }` (admin)
+ */
+serve(configHandler({
+  functionName: 'blind-scoring',
+  store: blindScoringStore,
+  validate: validateBlindScoring,
+  readPermission: 'score',
+}));
@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { auditRow, diffConfig } from '../_shared/audit.ts';
+import { authenticate, requirePermission } from '../_shared/auth.ts';
+import { DEFAULT_SCHEME_ID, modelCutoffScheme, validateBucketScheme } from '../_shared/bucketScheme.ts';
+import { activateScheme, createScheme, listSchemes } from '../_shared/bucketSchemeStore.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject } from '../_shared/http.ts';
+import { routingStore } from '../_shared/modelRoutingStore.ts';
+import { DEFAULT_CHAMPION, getModelVersion } from '../predict-risk/models/registry.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The active scheme in full, plus every scheme an admin can switch to. The
+ * default scheme is shown with the current champion's cutoffs.
+ */
+async function schemesResponse() {
+  const [{ activeId, schemes }, routing] = await Promise.all([listSchemes(), routingStore.load()]);
+  const champion = getModelVersion(routing.champion) ?? DEFAULT_CHAMPION;
+  const resolved = schemes.map((s) => (s.id === DEFAULT_SCHEME_ID ? modelCutoffScheme(champion.cutoffs) : s));
+  return { active: resolved.find((s) => s.id === activeId)!, schemes: resolved };
+}
+
+/**
+ * Risk-bucket schemes.
+ *   GET  – the active scheme and all alternatives (any signed-in role)
+ *   POST – store a new scheme from `{ name, buckets }` (admin)
+ *   PUT  – make `{ id }` the active scheme; "default" restores the model cutoffs (admin)
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+
+    switch (req.method) {
+      case 'GET': {
+        requirePermission(auth, 'score');
+        return jsonResponse(await schemesResponse());
+      }
+      case 'POST': {
+        requirePermission(auth, 'manageConfig');
+        const validation = validateBucketScheme(await readJsonObject(req));
+        if (!validation.success) {
+          throw new HttpError(422, 'Invalid bucket scheme', validation.issues);
+        }
+        const scheme = await createScheme(validation.data, auth.userId, auditRow(auth, req, {
+          action: 'bucket_scheme.create',
+          resource: 'bucket_schemes',
+          changes: diffConfig(undefined, validation.data),
+        }));
+        console.log('Bucket scheme created:', { id: scheme.id, name: scheme.name, by: auth.userId });
+        return jsonResponse(scheme, 201);
+      }
+      case 'PUT': {
+        requirePermission(auth, 'manageConfig');
+        const { id } = await readJsonObject(req);
+        if (typeof id !== 'string' || (id !== DEFAULT_SCHEME_ID && !UUID_PATTERN.test(id))) {
+          throw new HttpError(400, `id must be a scheme uuid or "${DEFAULT_SCHEME_ID}"`);
+        }
+        const { active: before, schemes } = await schemesResponse();
+        const target = schemes.find((s) => s.id === id.toLowerCase());
+        if (!target) throw new HttpError(404, 'Bucket scheme not found');
+        // Diffing the schemes themselves shows which cutoffs moved
+        await activateScheme(id, auditRow(auth, req, {
+          action: 'bucket_scheme.activate',
+          resource: 'bucket_schemes',
+          resource_id: id,
+          changes: diffConfig(before, target),
+        }));
+        console.log('Bucket scheme activated:', { id, by: auth.userId });
+        const after = await schemesResponse();
+        return jsonResponse(after);
+      }
+      default:
+        throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    return errorResponse(error, 'bucket-schemes', 'Failed to process bucket scheme request');
+  }
+});
@@ -0,0 +1,30 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { configHandler } from '../_shared/configHandler.ts';
+import { jsonResponse } from '../_shared/http.ts';
+import { validateRetention } from '../_shared/retention.ts';
+import { purgeExpired, retentionStatus, retentionStore } from '../_shared/retentionStore.ts';
+
+/**
+ * Retention of stored applicant data.
+ *   GET  – the retention period and how many predictions are due or purged (admin)
+ *   PUT  – replace the period with `{ retention_days }` (admin)
+ *   POST – purge every prediction past the period now, rather than at the nightly run (admin)
+ */
+serve(configHandler({
+  functionName: 'data-retention',
+  store: retentionStore,
+  validate: validateRetention,
+  readPermission: 'manageConfig',
+  respond: retentionStatus,
+  methods: {
+    POST: {
+      permission: 'manageConfig',
+      handle: async (_req, auth) => {
+        const purged = await purgeExpired(auth);
+        console.log('Applicant data purged:', { purged, by: auth.userId });
+        return jsonResponse({ ...await retentionStatus(), purged_now: purged });
+      },
+    },
+  },
+}));
@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { auditRow, diffConfig } from '../_shared/audit.ts';
+import { authenticate, requirePermission } from '../_shared/auth.ts';
+import { validateDecisionPolicy } from '../_shared/decisionPolicy.ts';
+import { activatePolicy, createPolicy, listPolicies } from '../_shared/decisionPolicyStore.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject } from '../_shared/http.ts';
+
+const MAX_NOTE_LENGTH = 200;
+
+async function policiesResponse() {
+  const { activeVersion, policies } = await listPolicies();
+  return { active: policies.find((p) => p.version === activeVersion)!, policies };
+}
+
+/**
+ * Versioned decision policies.
+ *   GET  – the active policy and every version (any signed-in role)
+ *   POST – store `{ policy, note }` as a new version (admin)
+ *   PUT  – make `{ version }` the active policy; 0 restores the built-in one (admin)
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+
+    switch (req.method) {
+      case 'GET': {
+        requirePermission(auth, 'score');
+        return jsonResponse(await policiesResponse());
+      }
+      case 'POST': {
+        requirePermission(auth, 'manageConfig');
+        const { policy, note } = await readJsonObject(req);
+        if (typeof note !== 'string' || note.trim() === '' || note.length > MAX_NOTE_LENGTH) {
+          throw new HttpError(422, 'Invalid decision policy', [
+            { field: 'note', message: `Describe the change in 1–${MAX_NOTE_LENGTH} characters` },
+          ]);
+        }
+        const validation = validateDecisionPolicy(policy);
+        if (!validation.success) {
+          throw new HttpError(422, 'Invalid decision policy', validation.issues);
+        }
+        // Relative to the active policy, which a new version is normally edited from
+        const { active } = await policiesResponse();
+        const stored = await createPolicy(validation.data, note.trim(), auth.userId, auditRow(auth, req, {
+          action: 'decision_policy.create',
+          resource: 'decision_policies',
+          details: { note: note.trim(), compared_with_version: active.version },
+          changes: diffConfig(active.policy, validation.data),
+        }));
+        console.log('Decision policy created:', { version: stored.version, by: auth.userId });
+        return jsonResponse(stored, 201);
+      }
+      case 'PUT': {
+        requirePermission(auth, 'manageConfig');
+        const { version } = await readJsonObject(req);
+        if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+          throw new HttpError(400, 'version must be a non-negative integer');
+        }
+        const { active: before, policies } = await policiesResponse();
+        const target = policies.find((p) => p.version === version);
+        if (!target) throw new HttpError(404, 'Decision policy version not found');
+        await activatePolicy(version, auditRow(auth, req, {
+          action: 'decision_policy.activate',
+          resource: 'decision_policies',
+          resource_id: String(version),
+          changes: diffConfig(before, target),
+        }));
+        console.log('Decision policy activated:', { version, by: auth.userId });
+        const after = await policiesResponse();
+        return jsonResponse(after);
+      }
+      default:
+        throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    return errorResponse(error, 'decision-policies', 'Failed to process decision policy request');
+  }
+});
@@ -0,0 +1,47 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { configHandler } from '../_shared/configHandler.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { computeFairness, validateFairnessThresholds, type FairnessReport } from '../_shared/fairness.ts';
+import { fairnessThresholdsStore, loadObservations } from '../_shared/fairnessStore.ts';
+import { jsonResponse, readJsonObject, readTimestamp } from '../_shared/http.ts';
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+async function fairnessReport(req: Request): Promise<Response> {
+  const body = await readJsonObject(req);
+  const now = new Date();
+  const to = readTimestamp(body, 'to', now);
+  const from = readTimestamp(body, 'from', new Date(now.getTime() - DEFAULT_PERIOD_DAYS * 86_400_000));
+  if (from >= to) {
+    throw new HttpError(422, 'Invalid report period', [{ field: 'from', message: 'Must be before the end date' }]);
+  }
+
+  const [thresholds, { observations, truncated }] = await Promise.all([
+    fairnessThresholdsStore.load(),
+    loadObservations(from, to),
+  ]);
+  const report: FairnessReport = { from, to, truncated, thresholds, ...computeFairness(observations, thresholds) };
+  if (report.alerts.length > 0) {
+    console.warn('Fairness alerts:', { from, to, alerts: report.alerts.map((a) => `${a.dimension}/${a.kind}`) });
+  }
+  return jsonResponse(report);
+}
+
+/**
+ * Fairness monitoring across gender and age band.
+ *   GET  – the alert thresholds (analyst, admin)
+ *   POST – the report for `{ from?, to? }`, by default the last 90 days (analyst, admin)
+ *   PUT  – replace the thresholds (admin)
+ * Gender and age are encrypted at rest, so the report is computed here where
+ * they can be decrypted; only aggregates leave the function.
+ */
+serve(configHandler({
+  functionName: 'fairness-report',
+  store: fairnessThresholdsStore,
+  validate: validateFairnessThresholds,
+  readPermission: 'viewMonitoring',
+  methods: {
+    POST: { permission: 'viewMonitoring', handle: fairnessReport },
+  },
+}));
@@ -0,0 +1,69 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { authenticate, requirePermission } from '../_shared/auth.ts';
+import { computeDrift, type DriftReport } from '../_shared/drift.ts';
+import { loadObservations } from '../_shared/driftStore.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject, readTimestamp } from '../_shared/http.ts';
+import { routingStore } from '../_shared/modelRoutingStore.ts';
+import { getModelVersion, MODEL_VERSIONS } from '../predict-risk/models/registry.ts';
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+async function readModelVersion(body: Record<string, unknown>) {
+  const value = body.model_version ?? (await routingStore.load()).champion;
+  const model = typeof value === 'string' ? getModelVersion(value) : undefined;
+  if (!model) {
+    throw new HttpError(422, 'Invalid model version', [
+      { field: 'model_version', message: `Must be one of: ${MODEL_VERSIONS.map((v) => v.id).join(', ')}` },
+    ]);
+  }
+  return model;
+}
+
+/**
+ * Population and characteristic stability of a model version's recent inputs.
+ *   POST – the report for `{ from?, to?, model_version? }`, by default the
+ *          last 30 days of the champion (analyst, admin)
+ * Stored inputs are encrypted at rest, so the report is computed here where
+ * they can be decrypted; only binned shares leave the function.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+    requirePermission(auth, 'viewMonitoring');
+
+    const body = await readJsonObject(req);
+    const now = new Date();
+    const to = readTimestamp(body, 'to', now);
+    const from = readTimestamp(body, 'from', new Date(now.getTime() - DEFAULT_PERIOD_DAYS * 86_400_000));
+    if (from >= to) {
+      throw new HttpError(422, 'Invalid report period', [{ field: 'from', message: 'Must be before the end date' }]);
+    }
+    const model = await readModelVersion(body);
+
+    const { observations, truncated } = await loadObservations(from, to, model);
+    const report: DriftReport = {
+      from,
+      to,
+      model_version: model.id,
+      truncated,
+      ...computeDrift(model.reference, model.featureColumns, observations),
+    };
+    const drifted = [report.score, ...report.features].filter((d) => d.status === 'significant' || d.status === 'moderate');
+    if (drifted.length > 0) {
+      console.warn('Model drift:', { model_version: model.id, from, to, drifted: drifted.map((d) => `${d.name}/${d.status}`) });
+    }
+    return jsonResponse(report);
+  } catch (error) {
+    return errorResponse(error, 'model-drift', 'Failed to compute model drift');
+  }
+});
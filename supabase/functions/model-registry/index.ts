@@ -0,0 +1,31 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { configHandler } from '../_shared/configHandler.ts';
+import { validateModelRouting } from '../_shared/modelRouting.ts';
+import { routingStore } from '../_shared/modelRoutingStore.ts';
+import { MODEL_VERSIONS } from '../predict-risk/models/registry.ts';
+
+async function registryResponse() {
+  return {
+    versions: MODEL_VERSIONS.map((version) => ({
+      id: version.id,
+      description: version.description,
+      feature_count: version.featureColumns.length,
+      cutoffs: version.cutoffs,
+    })),
+    routing: await routingStore.load(),
+  };
+}
+
+/**
+ * Registered model versions and champion/challenger routing.
+ *   GET – the versions and current routing (any signed-in role)
+ *   PUT – replace the routing with `{ champion, challenger, challenger_traffic }` (admin)
+ */
+serve(configHandler({
+  functionName: 'model-registry',
+  store: routingStore,
+  validate: validateModelRouting,
+  readPermission: 'score',
+  respond: registryResponse,
+}));
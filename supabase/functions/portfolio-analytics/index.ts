@@ -0,0 +1,64 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { CONTRACT_TYPES } from '../_shared/applicantSchema.ts';
+import { authenticate, requirePermission } from '../_shared/auth.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject, readTimestamp } from '../_shared/http.ts';
+import { computePortfolio, GRANULARITIES, type Granularity, type PortfolioReport } from '../_shared/portfolio.ts';
+import { loadObservations } from '../_shared/portfolioStore.ts';
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+function readOption<T extends string>(body: Record<string, unknown>, field: string, options: readonly T[]): T | null {
+  const value = body[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || !options.includes(value as T)) {
+    throw new HttpError(422, 'Invalid report filter', [{ field, message: `Must be one of: ${options.join(', ')}` }]);
+  }
+  return value as T;
+}
+
+/**
+ * Portfolio analytics over stored predictions.
+ *   POST – the report for `{ from?, to?, contract_type?, granularity? }`, by
+ *          default the last 90 days of every product by day (analyst, admin)
+ * Education is encrypted at rest, so the breakdowns are computed here where it
+ * can be decrypted; only aggregates leave the function.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+    requirePermission(auth, 'viewMonitoring');
+
+    const body = await readJsonObject(req);
+    const now = new Date();
+    const to = readTimestamp(body, 'to', now);
+    const from = readTimestamp(body, 'from', new Date(now.getTime() - DEFAULT_PERIOD_DAYS * 86_400_000));
+    if (from >= to) {
+      throw new HttpError(422, 'Invalid report period', [{ field: 'from', message: 'Must be before the end date' }]);
+    }
+    const contractType = readOption(body, 'contract_type', CONTRACT_TYPES);
+    const granularity: Granularity = readOption(body, 'granularity', GRANULARITIES) ?? 'day';
+
+    const { observations, truncated } = await loadObservations(from, to, contractType);
+    const report: PortfolioReport = {
+      from,
+      to,
+      granularity,
+      contract_type: contractType,
+      truncated,
+      ...computePortfolio(observations, from, to, granularity),
+    };
+    return jsonResponse(report);
+  } catch (error) {
+    return errorResponse(error, 'portfolio-analytics', 'Failed to compute portfolio analytics');
+  }
+});
@@ -0,0 +1,37 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { DEFAULT_BUCKET_SCHEME } from '../_shared/bucketScheme.ts';
+import { findPathToApproval } from './counterfactuals.ts';
+import { DEFAULT_CHAMPION } from './models/registry.ts';
+import { preprocess } from './preprocessing.ts';
+import type { ApplicantData } from './types.ts';
+
+const applicant: ApplicantData = {
+  annual_income: 180000,
+  credit_amount: 500000,
+  annuity: 2500,
+  age: 40,
+  employment_years: 5,
+  gender: 'F',
+  contract_type: 'Cash loans',
+  education: 'Higher education',
+};
+
+/** A model that only looks at the credit it is given, adverse above 400,000 */
+const scoreByCredit = (candidates: ApplicantData[]) =>
+  Promise.resolve(candidates.map((c) => (Number(preprocess(c, DEFAULT_CHAMPION).values.AMT_CREDIT) > 400_000 ? 0.5 : 0.01)));
+
+Deno.test('a smaller credit amount is suggested when only the friendly field is supplied', async () => {
+  const path = await findPathToApproval(applicant, DEFAULT_BUCKET_SCHEME, scoreByCredit);
+  assertEquals(path?.suggestions[0].changes, [{ field: 'credit_amount', from: 500000, to: 400000 }]);
+});
+
+Deno.test('the credit lever moves a supplied AMT_CREDIT, which is what the model reads', async () => {
+  const path = await findPathToApproval({ ...applicant, AMT_CREDIT: 500000 }, DEFAULT_BUCKET_SCHEME, scoreByCredit);
+  assertEquals(path?.suggestions[0].changes, [{ field: 'credit_amount', from: 500000, to: 400000 }]);
+});
+
+Deno.test('no suggestion is made when no lever reaches a non-adverse bucket', async () => {
+  const path = await findPathToApproval(applicant, DEFAULT_BUCKET_SCHEME, (c) => Promise.resolve(c.map(() => 0.5)));
+  assertEquals(path?.suggestions, []);
+});
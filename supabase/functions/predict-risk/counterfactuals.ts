@@ -0,0 +1,128 @@
+import { suppressedAttributes, validateApplicant } from '../_shared/applicantSchema.ts';
+import { assignBucket, type BucketScheme } from '../_shared/bucketScheme.ts';
+import { FRIENDLY_COLUMNS } from '../_shared/homeCredit.ts';
+import type { ApplicantData, Counterfactual, CounterfactualChange, PathToApproval } from './types.ts';
+
+/**
+ * Counterfactual "path to approval" search: the smallest change to the
+ * actionable loan terms that moves an adverse applicant into a non-adverse
+ * bucket. Only the requested credit, the annuity and the goods price are ever
+ * varied; age, gender, education and every other attribute stay fixed.
+ */
+
+type ActionableField = CounterfactualChange['field'];
+
+interface Lever {
+  /** Fields moved together by the same factor */
+  fields: ActionableField[];
+  factors: number[];
+}
+
+const STEP = 0.025;
+const MAX_CHANGE = 0.6;
+
+// Factors ordered from the smallest change outwards, e.g. 0.975, 0.95, ...
+const DOWN = Array.from({ length: Math.round(MAX_CHANGE / STEP) }, (_, i) => 1 - (i + 1) * STEP);
+const UP = DOWN.map((factor) => 2 - factor);
+
+/**
+ * Borrowing less at the same term scales credit, annuity and goods price
+ * together; the single-field levers change one term and hold the rest.
+ */
+const LEVERS: Lever[] = [
+  { fields: ['credit_amount'], factors: DOWN },
+  { fields: ['AMT_GOODS_PRICE'], factors: DOWN },
+  { fields: ['annuity'], factors: DOWN },
+  { fields: ['annuity'], factors: UP },
+  { fields: ['credit_amount', 'annuity', 'AMT_GOODS_PRICE'], factors: DOWN },
+];
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Home Credit columns a lever also has to move. Preprocessing prefers a
+ * supplied column to the friendly field it duplicates, so varying only
+ * `credit_amount` while AMT_CREDIT is supplied would change nothing the model
+ * sees. A supplied column is scaled by the lever's own factor.
+ */
+const DUPLICATE_COLUMNS: Partial<Record<ActionableField, 'AMT_CREDIT' | 'AMT_ANNUITY'>> = {
+  credit_amount: FRIENDLY_COLUMNS.credit_amount.column,
+  annuity: FRIENDLY_COLUMNS.annuity.column,
+};
+
+/** Round to three significant figures in the direction of the change, e.g. 412,345 → 412,000 */
+function roundTowards(value: number, factor: number): number {
+  const unit = 10 ** Math.max(0, Math.floor(Math.log10(value)) - 2);
+  return (factor < 1 ? Math.floor(value / unit) : Math.ceil(value / unit)) * unit;
+}
+
+function currentValue(data: ApplicantData, field: ActionableField): number | undefined {
+  const value = data[field];
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Candidate applicants for one lever, smallest change first. Fields the
+ * caller did not supply (a goods price left to imputation) are not varied,
+ * and candidates that would fail validation are dropped.
+ */
+function leverCandidates(data: ApplicantData, lever: Lever): { data: ApplicantData; changes: CounterfactualChange[] }[] {
+  const fields = lever.fields.filter((field) => currentValue(data, field) !== undefined);
+  if (fields.length === 0) return [];
+
+  return lever.factors.flatMap((factor) => {
+    const changes = fields.map((field) => {
+      const from = currentValue(data, field)!;
+      return { field, from, to: roundTowards(from * factor, factor) };
+    });
+    const candidate: ApplicantData = { ...data };
+    for (const { field, from, to } of changes) {
+      candidate[field] = to;
+      const column = DUPLICATE_COLUMNS[field];
+      const supplied = column ? data[column] : undefined;
+      if (column && typeof supplied === 'number') candidate[column] = supplied * (to / from);
+    }
+    return validateApplicant(candidate, suppressedAttributes(data)).success ? [{ data: candidate, changes }] : [];
+  });
+}
+
+/** Largest relative change across the fields a suggestion moves, for ranking */
+const changeSize = ({ changes }: Counterfactual) =>
+  Math.max(...changes.map(({ from, to }) => Math.abs(to - from) / from));
+
+/**
+ * Search every lever for its smallest change that lands in a non-adverse
+ * bucket of `scheme`. All candidates are scored in one call to `score`, which
+ * must use the model version that scored the applicant. Suggestions are
+ * ordered smallest change first; an empty list means no lever reaches the
+ * target within a 60% change. Null when the scheme has no non-adverse bucket.
+ */
+export async function findPathToApproval(
+  data: ApplicantData,
+  scheme: BucketScheme,
+  score: (candidates: ApplicantData[]) => Promise<number[]>,
+): Promise<PathToApproval | null> {
+  const target = scheme.buckets.filter((bucket) => !bucket.adverse).at(-1);
+  if (!target) return null;
+
+  const levers = LEVERS.map((lever) => leverCandidates(data, lever));
+  const probabilities = await score(levers.flat().map((candidate) => candidate.data));
+
+  let offset = 0;
+  const suggestions: Counterfactual[] = [];
+  for (const candidates of levers) {
+    const scores = probabilities.slice(offset, offset + candidates.length);
+    offset += candidates.length;
+
+    const hit = scores.findIndex((probability) => !assignBucket(probability, scheme).adverse);
+    if (hit === -1) continue;
+    suggestions.push({
+      changes: candidates[hit].changes,
+      probability: scores[hit],
+      bucket: assignBucket(scores[hit], scheme).name,
+    });
+  }
+
+  suggestions.sort((a, b) => changeSize(a) - changeSize(b));
+  return { target_bucket: target.name, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+}
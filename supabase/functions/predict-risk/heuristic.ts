@@ -0,0 +1,72 @@
+import { MONTHS_PER_YEAR } from '../_shared/homeCredit.ts';
+import type { ApplicantData, Explanation, FeatureContribution } from './types.ts';
+
+// Bump whenever a rule or weight below changes
+export const HEURISTIC_VERSION = '1.1.0';
+
+/**
+ * Heuristic fallback engine.
+ * Hand-written additive rules that only approximate the trained model. It is
+ * used when the ONNX artifacts are missing or fail to load, and every score
+ * it produces is reported with engine `heuristic-fallback`.
+ * Pure function of its input: the same applicant always gets the same score.
+ */
+export function predictHeuristic(data: ApplicantData): { probability: number; explanation: Explanation } {
+  // Preprocess the input data
+  const income = data.annual_income;
+  const credit = data.credit_amount;
+  const annuity = data.annuity;
+  const age = data.age;
+  const employment = data.employment_years;
+  
+  // Calculate derived features
+  const creditToIncome = credit / income;
+  const debtToIncome = (annuity * MONTHS_PER_YEAR) / income;
+  
+  const contributions: FeatureContribution[] = [];
+  const addPoints = (feature: string, value: number | string, impact: number) => {
+    if (impact !== 0) contributions.push({ feature, value, impact });
+  };
+  
+  // Credit to income ratio impact
+  if (creditToIncome > 3) addPoints('creditToIncome', creditToIncome, 0.08);
+  else if (creditToIncome > 2) addPoints('creditToIncome', creditToIncome, 0.05);
+  else if (creditToIncome > 1) addPoints('creditToIncome', creditToIncome, 0.03);
+  
+  // Debt to income ratio impact
+  if (debtToIncome > 0.5) addPoints('debtToIncome', debtToIncome, 0.06);
+  else if (debtToIncome > 0.3) addPoints('debtToIncome', debtToIncome, 0.03);
+  
+  // Age impact (very young or older applicants might have higher risk); none when age is suppressed
+  if (age !== undefined) {
+    if (age < 25) addPoints('age', age, 0.04);
+    else if (age > 60) addPoints('age', age, 0.02);
+  }
+  
+  // Employment years impact
+  if (employment < 1) addPoints('employment', employment, 0.05);
+  else if (employment < 3) addPoints('employment', employment, 0.03);
+  else if (employment > 10) addPoints('employment', employment, -0.02); // Reduce risk for stable employment
+  
+  // Contract type impact
+  if (data.contract_type === "Revolving loans") addPoints('contractType', data.contract_type, 0.02);
+  
+  // Education impact
+  if (data.education === "Academic degree" || data.education === "Higher education") {
+    addPoints('education', data.education, -0.02);
+  } else if (data.education === "Lower secondary") {
+    addPoints('education', data.education, 0.02);
+  }
+  
+  const riskScore = contributions.reduce((sum, c) => sum + c.impact, 0);
+
+  // Clamp to the 0-40% range the rules were calibrated for
+  const probability = Math.max(0, Math.min(0.4, riskScore));
+
+  contributions.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+
+  return {
+    probability,
+    explanation: { method: 'rule-points', base_value: 0, output_value: probability, contributions },
+  };
+}
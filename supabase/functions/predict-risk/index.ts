@@ -1,130 +1,335 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Load metadata
-import meta from './artifacts_meta.json' with { type: 'json' };
-
-interface ApplicantData {
-  annual_income: number;
-  credit_amount: number;
-  annuity: number;
-  age: number;
-  employment_years: number;
-  gender: string;
-  contract_type: string;
-  education: string;
+import { PROTECTED_ATTRIBUTES, suppressedAttributes, validateApplicant, type ProtectedAttribute } from '../_shared/applicantSchema.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { authenticate, requirePermission } from '../_shared/auth.ts';
+import { suppressedFor, type BlindScoringConfig } from '../_shared/blindScoring.ts';
+import { blindScoringStore } from '../_shared/blindScoringStore.ts';
+import { assignBucket, bucketRange, DEFAULT_SCHEME_ID, modelCutoffScheme, type BucketScheme } from '../_shared/bucketScheme.ts';
+import { loadActiveScheme } from '../_shared/bucketSchemeStore.ts';
+import { decide, type StoredPolicy } from '../_shared/decisionPolicy.ts';
+import { loadActivePolicy } from '../_shared/decisionPolicyStore.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject } from '../_shared/http.ts';
+import { routeByHash, type ModelRole, type ModelRouting } from '../_shared/modelRouting.ts';
+import { routingStore } from '../_shared/modelRoutingStore.ts';
+import { priceApplicant, type PricingConfig } from '../_shared/pricing.ts';
+import { pricingStore } from '../_shared/pricingStore.ts';
+import { redactApplicant } from '../_shared/redaction.ts';
+import { findPathToApproval } from './counterfactuals.ts';
+import { canonicalJson, sha256Hex } from './hashing.ts';
+import { HEURISTIC_VERSION, predictHeuristic } from './heuristic.ts';
+import { DEFAULT_CHAMPION, getModelVersion, type ModelVersion } from './models/registry.ts';
+import { loadOnnxModel, predictOnnx, scoreOnnx } from './onnx.ts';
+import { preprocess } from './preprocessing.ts';
+import { deriveReasonCodes, REASON_CATALOGUE_VERSION } from './reasons.ts';
+import { savePredictions, type PredictionRecord, type ScoredApplicant } from './store.ts';
+import type {
+  ApplicantData,
+  BatchPredictionResult,
+  BatchRowResult,
+  EngineName,
+  Explanation,
+  PathToApproval,
+  PredictionRequest,
+  PredictionResult,
+} from './types.ts';
+
+/** Configuration a request is scored under, loaded once per request */
+interface ScoringContext {
+  scheme: BucketScheme;
+  routing: ModelRouting;
+  pricing: PricingConfig;
+  policy: StoredPolicy;
+  blindScoring: BlindScoringConfig;
 }
 
-interface PredictionRequest {
-  data: ApplicantData;
+async function loadScoringContext(): Promise<ScoringContext> {
+  const [scheme, routing, pricing, policy, blindScoring] = await Promise.all([
+    loadActiveScheme(),
+    routingStore.load(),
+    pricingStore.load(),
+    loadActivePolicy(),
+    blindScoringStore.load(),
+  ]);
+  return { scheme, routing, pricing, policy, blindScoring };
 }
 
-// Feature medians for imputation (these should match your feature_medians.pkl)
-const FEATURE_MEDIANS: Record<string, number> = {
-  "AMT_INCOME_TOTAL": 147150.0,
-  "AMT_CREDIT": 599025.0,
-  "AMT_ANNUITY": 27108.0,
-  "AMT_GOODS_PRICE": 450000.0,
-  "DAYS_BIRTH": -13993,
-  "DAYS_EMPLOYED": -2010,
-  "DAYS_REGISTRATION": -4427,
-  "DAYS_ID_PUBLISH": -3053,
-  "CNT_CHILDREN": 0,
-  "CNT_FAM_MEMBERS": 2,
-};
-
-// Label encodings (simplified - these should match your label_encoders.pkl)
-const GENDER_ENCODING: Record<string, number> = { "M": 0, "F": 1 };
-const CONTRACT_ENCODING: Record<string, number> = { 
-  "Cash loans": 0, 
-  "Revolving loans": 1 
-};
-const EDUCATION_ENCODING: Record<string, number> = {
-  "Secondary / secondary special": 0,
-  "Higher education": 1,
-  "Incomplete higher": 2,
-  "Lower secondary": 3,
-  "Academic degree": 4,
-};
-
-// Risk cutoffs from metadata
-const cutoffs = meta.cutoffs;
+/** A routed version that is no longer registered falls back to the default champion */
+function resolveVersion(id: string): ModelVersion {
+  const version = getModelVersion(id);
+  if (!version) {
+    console.warn(`Model version ${id} is not registered, using ${DEFAULT_CHAMPION.id}`);
+    return DEFAULT_CHAMPION;
+  }
+  return version;
+}
+
+/** The default scheme grades with the cutoffs of the version that scored */
+function gradingScheme(scheme: BucketScheme, modelVersion: ModelVersion): BucketScheme {
+  return scheme.id === DEFAULT_SCHEME_ID ? modelCutoffScheme(modelVersion.cutoffs) : scheme;
+}
 
 /**
- * Simplified prediction function
- * NOTE: This is a placeholder implementation. For production, you should:
- * 1. Export your LightGBM model to ONNX format using Python
- * 2. Use ONNX Runtime Web or ONNX Runtime Node in this edge function
- * 3. Load and run inference with the actual trained model
+ * Score an applicant with one model version: its trained LightGBM model when
+ * the ONNX artifacts are deployed, otherwise the heuristic fallback engine.
+ * The version and engine that produced the score are returned with it.
+ *
+ * Scoring is deterministic: the same input and engine version always yield
+ * the same probability, so `input_hash` + `engine_version` replay a decision.
+ * The bucket, price and decision depend on the configuration active at the
+ * time; the bucket scheme and policy are recorded as `bucket_scheme_id` and
+ * `decision.policy_version`.
  */
-function predictRisk(data: ApplicantData): { probability: number; bucket: string } {
-  // Preprocess the input data
-  const income = data.annual_income;
-  const credit = data.credit_amount;
-  const annuity = data.annuity;
-  const age = data.age;
-  const employment = data.employment_years;
-  
-  // Calculate derived features
-  const creditToIncome = credit / income;
-  const annuityToIncome = annuity / income;
-  const debtToIncome = (annuity * 12) / income;
-  
-  // Simplified risk scoring (replace with actual model inference)
-  // This is a basic heuristic that should be replaced with your actual model
-  let riskScore = 0;
-  
-  // Credit to income ratio impact
-  if (creditToIncome > 3) riskScore += 0.08;
-  else if (creditToIncome > 2) riskScore += 0.05;
-  else if (creditToIncome > 1) riskScore += 0.03;
-  
-  // Debt to income ratio impact
-  if (debtToIncome > 0.5) riskScore += 0.06;
-  else if (debtToIncome > 0.3) riskScore += 0.03;
-  
-  // Age impact (very young or older applicants might have higher risk)
-  if (age < 25) riskScore += 0.04;
-  else if (age > 60) riskScore += 0.02;
-  
-  // Employment years impact
-  if (employment < 1) riskScore += 0.05;
-  else if (employment < 3) riskScore += 0.03;
-  else if (employment > 10) riskScore -= 0.02; // Reduce risk for stable employment
-  
-  // Contract type impact
-  if (data.contract_type === "Revolving loans") riskScore += 0.02;
-  
-  // Education impact
-  if (data.education === "Academic degree" || data.education === "Higher education") {
-    riskScore -= 0.02;
-  } else if (data.education === "Lower secondary") {
-    riskScore += 0.02;
+async function predictRisk(
+  data: ApplicantData,
+  input_hash: string,
+  modelVersion: ModelVersion,
+  model_role: ModelRole,
+  { scheme, pricing: pricingConfig, policy }: Pick<ScoringContext, 'scheme' | 'pricing' | 'policy'>,
+): Promise<PredictionResult> {
+  const model = await loadOnnxModel(modelVersion);
+  const features = preprocess(data, modelVersion);
+
+  let probability: number;
+  let explanation: Explanation;
+  let engine: EngineName;
+  let engine_version: string;
+  if (model) {
+    ({ probability, explanation } = await predictOnnx(model, features, modelVersion.featureColumns));
+    engine = 'lightgbm-onnx';
+    engine_version = model.version;
+  } else {
+    ({ probability, explanation } = predictHeuristic(data));
+    engine = 'heuristic-fallback';
+    engine_version = HEURISTIC_VERSION;
   }
-  
-  // Normalize to 0-1 range and add some randomness for variation
-  const baseProbability = Math.max(0, Math.min(0.4, riskScore));
-  const probability = baseProbability + (Math.random() * 0.02 - 0.01); // Add small variance
-  
-  // Assign risk bucket based on cutoffs
-  let bucket = "D";
-  if (probability <= cutoffs.A) bucket = "A";
-  else if (probability <= cutoffs.B) bucket = "B";
-  else if (probability <= cutoffs.C) bucket = "C";
-  
-  console.log('Prediction:', {
-    input: data,
-    features: { creditToIncome, annuityToIncome, debtToIncome },
+
+  const bucketScheme = gradingScheme(scheme, modelVersion);
+  const bucketDefinition = assignBucket(probability, bucketScheme);
+  const bucket = bucketDefinition.name;
+  const reason_codes = deriveReasonCodes(bucketDefinition, explanation);
+  const pricing = priceApplicant(probability, bucket, bucketRange(bucketScheme, bucket), data, pricingConfig);
+  const decision = decide(policy, data, probability, bucketDefinition, bucketScheme);
+
+  return {
     probability,
-    bucket
+    bucket,
+    bucket_scheme_id: scheme.id,
+    model_version: modelVersion.id,
+    model_role,
+    engine,
+    engine_version,
+    input_hash,
+    imputed_fields: features.imputed,
+    suppressed_attributes: suppressedAttributes(data),
+    explanation,
+    reason_codes,
+    reason_catalogue_version: REASON_CATALOGUE_VERSION,
+    pricing,
+    decision,
+  };
+}
+
+/**
+ * Log one scored applicant, redacted. Only single requests are logged this way;
+ * a batch logs its summary, so a portfolio upload does not write a line per row.
+ */
+async function logPrediction(data: ApplicantData, result: PredictionResult, shadow = false) {
+  console.log(shadow ? 'Shadow prediction:' : 'Prediction:', {
+    applicant: await redactApplicant(data),
+    model_version: result.model_version,
+    model_role: result.model_role,
+    engine: result.engine,
+    engine_version: result.engine_version,
+    input_hash: result.input_hash,
+    imputed: result.imputed_fields,
+    suppressed: result.suppressed_attributes,
+    probability: result.probability,
+    bucket: result.bucket,
+    reason_codes: result.reason_codes,
+    suggested_rate: result.pricing.suggested_rate,
+    decision: result.decision,
   });
-  
-  return { probability, bucket };
+}
+
+/**
+ * Score an applicant with the version routing selects. When a challenger is
+ * configured the other version scores too, in shadow mode: its result is
+ * stored but never returned.
+ */
+async function scoreApplicant(data: ApplicantData, context: ScoringContext): Promise<ScoredApplicant> {
+  const { routing } = context;
+  const input_hash = await sha256Hex(canonicalJson(data));
+  const role = routeByHash(routing, input_hash);
+  const champion = resolveVersion(routing.champion);
+  const challenger = routing.challenger ? resolveVersion(routing.challenger) : null;
+
+  if (!challenger) {
+    return { result: await predictRisk(data, input_hash, champion, 'champion', context), shadow: null };
+  }
+
+  const [result, shadow] = role === 'champion'
+    ? await Promise.all([
+        predictRisk(data, input_hash, champion, 'champion', context),
+        predictRisk(data, input_hash, challenger, 'challenger', context),
+      ])
+    : await Promise.all([
+        predictRisk(data, input_hash, challenger, 'challenger', context),
+        predictRisk(data, input_hash, champion, 'champion', context),
+      ]);
+  return { result, shadow };
+}
+
+/**
+ * Score a what-if scenario with the version that scored its baseline. The
+ * scenario's own input hash could route it to the other version, and the
+ * delta shown against the baseline would then compare two models.
+ */
+async function scoreScenario(data: ApplicantData, modelVersion: ModelVersion, context: ScoringContext): Promise<ScoredApplicant> {
+  const input_hash = await sha256Hex(canonicalJson(data));
+  const role: ModelRole = modelVersion.id === context.routing.challenger ? 'challenger' : 'champion';
+  return { result: await predictRisk(data, input_hash, modelVersion, role, context), shadow: null };
+}
+
+/**
+ * For an applicant in an adverse bucket, the smallest changes to the loan
+ * terms that would move them out of it, searched with the model version and
+ * scheme that produced their result. Null when the result is not adverse.
+ */
+async function pathToApproval(
+  data: ApplicantData,
+  result: PredictionResult,
+  { scheme }: ScoringContext,
+): Promise<PathToApproval | null> {
+  const modelVersion = resolveVersion(result.model_version);
+  const bucketScheme = gradingScheme(scheme, modelVersion);
+  if (!assignBucket(result.probability, bucketScheme).adverse) return null;
+
+  const model = await loadOnnxModel(modelVersion);
+  return findPathToApproval(data, bucketScheme, async (candidates) =>
+    model
+      ? scoreOnnx(model, candidates.map((candidate) => preprocess(candidate, modelVersion).vector))
+      : candidates.map((candidate) => predictHeuristic(candidate).probability)
+  );
+}
+
+/**
+ * What the audit trail keeps of a result: enough to show what was returned
+ * and under which configuration, without the applicant's data.
+ */
+function auditSummary(result: Omit<PredictionResult, 'explanation'>) {
+  return {
+    input_hash: result.input_hash,
+    model_version: result.model_version,
+    model_role: result.model_role,
+    engine_version: result.engine_version,
+    bucket_scheme_id: result.bucket_scheme_id,
+    probability: result.probability,
+    bucket: result.bucket,
+    reason_codes: result.reason_codes.map((reason) => reason.code),
+    suggested_rate: result.pricing.suggested_rate,
+    decision: result.decision.outcome,
+    policy_version: result.decision.policy_version,
+    suppressed_attributes: result.suppressed_attributes,
+  };
+}
+
+/** Cutoffs each model version graded with under the request's scheme */
+function auditCutoffs(modelVersions: string[], { scheme }: ScoringContext) {
+  return Object.fromEntries(
+    [...new Set(modelVersions)].map((id) => [
+      id,
+      gradingScheme(scheme, resolveVersion(id)).buckets.map(({ name, max_probability }) => ({ name, max_probability })),
+    ]),
+  );
+}
+
+/** The attributes a request asks to score without; absent means none */
+function readSuppress(value: unknown): ProtectedAttribute[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((item) => PROTECTED_ATTRIBUTES.includes(item))) {
+    throw new HttpError(422, 'Invalid suppress list', [
+      { field: 'suppress', message: `Must be a list of: ${PROTECTED_ATTRIBUTES.join(', ')}` },
+    ]);
+  }
+  return value;
+}
+
+/** The version a scenario is pinned to, or null to route it like any request */
+function readPinnedVersion(value: unknown, scenario: boolean): ModelVersion | null {
+  if (value === undefined || value === null) return null;
+  const modelVersion = typeof value === 'string' ? getModelVersion(value) : undefined;
+  if (!scenario || !modelVersion) {
+    throw new HttpError(422, 'Invalid model version', [
+      {
+        field: 'model_version',
+        message: scenario ? 'Unknown model version' : 'Only a scenario can be pinned to a model version',
+      },
+    ]);
+  }
+  return modelVersion;
+}
+
+/**
+ * Validate one applicant, throwing a 422 that lists every offending field.
+ * Attributes suppressed by the request or the applicant's product are
+ * stripped here, before anything else sees the data.
+ */
+function parseApplicant(input: unknown, suppress: ProtectedAttribute[], { blindScoring }: ScoringContext): ApplicantData {
+  const contractType = input !== null && typeof input === 'object' ? (input as Record<string, unknown>).contract_type : undefined;
+  const result = validateApplicant(input, suppressedFor(blindScoring, contractType, suppress));
+  if (!result.success) {
+    throw new HttpError(422, 'Invalid applicant data', result.issues);
+  }
+  return result.data;
+}
+
+const MAX_BATCH_SIZE = 10000;
+
+const countBy = (values: string[]) =>
+  values.reduce<Record<string, number>>((counts, value) => ({ ...counts, [value]: (counts[value] ?? 0) + 1 }), {});
+
+/**
+ * Score a portfolio row by row. A row that fails validation or scoring is
+ * reported with its error and does not abort the rest of the batch.
+ * Explanations are persisted but omitted per row to keep the payload small.
+ */
+async function predictBatch(
+  records: unknown[],
+  suppress: ProtectedAttribute[],
+  userId: string,
+  context: ScoringContext,
+): Promise<BatchPredictionResult> {
+  const results: BatchRowResult[] = [];
+  const scored: (PredictionRecord & { index: number })[] = [];
+
+  for (const [index, record] of records.entries()) {
+    try {
+      const input = parseApplicant(record, suppress, context);
+      scored.push({ index, input, ...await scoreApplicant(input, context), userId });
+    } catch (error) {
+      results.push({
+        index,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof HttpError && error.fields ? { fields: error.fields } : {}),
+      });
+    }
+  }
+
+  const ids = await savePredictions(scored);
+  scored.forEach(({ index, result }, i) => {
+    const { explanation: _explanation, ...row } = result;
+    results.push({ index, ...row, prediction_id: ids[i] });
+  });
+  results.sort((a, b) => a.index - b.index);
+
+  const failed = records.length - scored.length;
+  return {
+    results,
+    summary: { total: records.length, scored: scored.length, failed },
+  };
 }
 
 serve(async (req) => {
@@ -134,47 +339,82 @@ serve(async (req) => {
   }
 
   try {
-    const body: PredictionRequest = await req.json();
-    console.log('Received prediction request:', body);
+    const auth = await authenticate(req);
+    const body = await readJsonObject(req) as PredictionRequest;
+
+    // Batch mode: score every record, collecting row-level failures
+    if ('records' in body) {
+      requirePermission(auth, 'batchScore');
+      if (!Array.isArray(body.records)) {
+        throw new HttpError(400, 'records must be an array');
+      }
+      if (body.records.length > MAX_BATCH_SIZE) {
+        throw new HttpError(413, `Batch too large: ${body.records.length} records (max ${MAX_BATCH_SIZE})`);
+      }
+      const suppress = readSuppress(body.suppress);
+      console.log('Received batch prediction request:', { records: body.records.length, suppress });
+
+      const context = await loadScoringContext();
+      const result = await predictBatch(body.records, suppress, auth.userId, context);
+
+      const scored = result.results.flatMap((row) => ('error' in row ? [] : [row]));
+      console.log('Batch prediction result:', {
+        ...result.summary,
+        model_versions: countBy(scored.map((row) => row.model_version)),
+        engines: countBy(scored.map((row) => row.engine)),
+      });
+      await recordAudit(auth, req, {
+        action: 'prediction.batch',
+        resource: 'predictions',
+        details: {
+          summary: result.summary,
+          cutoffs: auditCutoffs(scored.map((row) => row.model_version), context),
+          results: result.results.map((row) =>
+            'error' in row
+              ? { index: row.index, error: row.error }
+              : { index: row.index, prediction_id: row.prediction_id, ...auditSummary(row) }
+          ),
+        },
+      });
+
+      return jsonResponse(result);
+    }
+
+    requirePermission(auth, 'score');
+    const suppress = readSuppress(body.suppress);
+    // Never log the applicant data itself, only its redacted form
+    console.log('Received prediction request:', { scenario: body.scenario === true, suppress });
     
     // Validate input
     if (!body.data) {
-      throw new Error('Missing data field in request');
+      throw new HttpError(400, 'Missing data field in request');
     }
     
-    const { data } = body;
+    const scenario = body.scenario === true;
+    const pinned = readPinnedVersion(body.model_version, scenario);
+    const context = await loadScoringContext();
+    const data = parseApplicant(body.data, suppress, context);
     
-    // Validate required fields
-    const requiredFields = ['annual_income', 'credit_amount', 'annuity', 'age', 'employment_years', 'gender', 'contract_type', 'education'];
-    for (const field of requiredFields) {
-      if (!(field in data)) {
-        throw new Error(`Missing required field: ${field}`);
-      }
-    }
+    // Make prediction; what-if scenarios are scored the same way but not stored
+    const { result, shadow } = pinned ? await scoreScenario(data, pinned, context) : await scoreApplicant(data, context);
+    await logPrediction(data, result);
+    if (shadow) await logPrediction(data, shadow, true);
+    const [prediction_id] = scenario
+      ? [null]
+      : await savePredictions([{ input: data, result, shadow, userId: auth.userId }]);
+    const path_to_approval = scenario ? null : await pathToApproval(data, result, context);
     
-    // Make prediction
-    const result = predictRisk(data);
+    const summary = { prediction_id, ...auditSummary(result) };
+    console.log('Prediction result:', summary);
+    await recordAudit(auth, req, {
+      action: scenario ? 'prediction.scenario' : 'prediction.score',
+      resource: 'predictions',
+      resource_id: prediction_id,
+      details: { ...summary, cutoffs: auditCutoffs([result.model_version], context)[result.model_version] },
+    });
     
-    console.log('Prediction result:', result);
-    
-    return new Response(
-      JSON.stringify(result),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    );
+    return jsonResponse({ ...result, prediction_id, path_to_approval });
   } catch (error) {
-    console.error('Error in predict-risk function:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Unknown error',
-        details: 'Failed to process prediction request'
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      }
-    );
+    return errorResponse(error, 'predict-risk', 'Failed to process prediction request');
   }
 });
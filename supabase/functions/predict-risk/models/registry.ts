@@ -0,0 +1,51 @@
+import lgbmV1Medians from './lgbm-v1/feature_medians.json' with { type: 'json' };
+import lgbmV1Encoders from './lgbm-v1/label_encoders.json' with { type: 'json' };
+import lgbmV1Reference from './lgbm-v1/reference_distribution.json' with { type: 'json' };
+
+import type { ReferenceDistribution } from '../../_shared/drift.ts';
+import { DEFAULT_CHAMPION_ID, MODEL_SUMMARIES, type ModelSummary } from '../../_shared/modelCatalog.ts';
+
+/**
+ * Registry of deployable model versions. Each version lives in its own
+ * directory under `models/` with the artifacts exported by the training
+ * pipeline (see MODEL_INTEGRATION_GUIDE.md):
+ * - `artifacts_meta.json`: `feature_columns` in training order and bucket `cutoffs`
+ * - `feature_medians.json`: `{ column: median }`, used for imputation
+ * - `label_encoders.json`: `{ column: classes_ }`; a value's code is its index
+ * - `reference_distribution.json`: training distribution of the score and key features, for drift monitoring
+ * - `model.onnx` and `calibrator_iso.json`: read at runtime, listed in config.toml
+ *
+ * To register a version, add its directory, its summary in
+ * `_shared/modelCatalog.ts` (the part the app bundles) and an entry below.
+ * Which version is champion, and how much traffic a challenger gets, is
+ * configured at runtime through the model-registry function.
+ */
+
+export interface ModelVersion extends ModelSummary {
+  medians: Record<string, number>;
+  encoders: Record<string, string[]>;
+  /** What the model saw in training, compared against recent predictions */
+  reference: ReferenceDistribution;
+  /** Directory holding the version's `model.onnx` and `calibrator_iso.json` */
+  directory: URL;
+}
+
+function summary(id: string): ModelSummary {
+  return MODEL_SUMMARIES.find((entry) => entry.id === id)!;
+}
+
+export const MODEL_VERSIONS: ModelVersion[] = [
+  {
+    ...summary('lgbm-v1'),
+    medians: lgbmV1Medians,
+    encoders: lgbmV1Encoders,
+    reference: lgbmV1Reference,
+    directory: new URL('./lgbm-v1/', import.meta.url),
+  },
+];
+
+export function getModelVersion(id: string): ModelVersion | undefined {
+  return MODEL_VERSIONS.find((version) => version.id === id);
+}
+
+export const DEFAULT_CHAMPION: ModelVersion = getModelVersion(DEFAULT_CHAMPION_ID)!;
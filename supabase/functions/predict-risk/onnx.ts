@@ -0,0 +1,151 @@
+import * as ort from 'npm:onnxruntime-web@1.20.1';
+
+import { sha256Hex } from './hashing.ts';
+import type { ModelVersion } from './models/registry.ts';
+import type { PreprocessedFeatures } from './preprocessing.ts';
+import type { Explanation, FeatureContribution } from './types.ts';
+
+/**
+ * Fitted IsotonicRegression breakpoints (`X_thresholds_` / `y_thresholds_`).
+ * skl2onnx has no converter for IsotonicRegression, so the calibrator ships
+ * as JSON and is applied here with the same piecewise-linear interpolation.
+ */
+interface IsotonicCalibrator {
+  x_thresholds: number[];
+  y_thresholds: number[];
+}
+
+export interface OnnxModel {
+  session: ort.InferenceSession;
+  calibrator: IsotonicCalibrator;
+  /** Digest of the model and calibrator bytes, so a score can be tied to exact artifacts */
+  version: string;
+}
+
+ort.env.wasm.numThreads = 1;
+
+const modelPromises = new Map<string, Promise<OnnxModel | null>>();
+
+async function loadModel(modelVersion: ModelVersion): Promise<OnnxModel | null> {
+  try {
+    // Artifacts exported by the training pipeline (see MODEL_INTEGRATION_GUIDE.md)
+    const [modelBytes, calibratorJson] = await Promise.all([
+      Deno.readFile(new URL('model.onnx', modelVersion.directory)),
+      Deno.readTextFile(new URL('calibrator_iso.json', modelVersion.directory)),
+    ]);
+    const session = await ort.InferenceSession.create(modelBytes);
+    const calibrator: IsotonicCalibrator = JSON.parse(calibratorJson);
+    const modelDigest = await sha256Hex(modelBytes);
+    const calibratorDigest = await sha256Hex(calibratorJson);
+    const version = `sha256:${modelDigest.slice(0, 12)}-${calibratorDigest.slice(0, 12)}`;
+    console.log('Loaded ONNX model:', {
+      model_version: modelVersion.id,
+      version,
+      inputs: session.inputNames,
+      outputs: session.outputNames,
+    });
+    return { session, calibrator, version };
+  } catch (error) {
+    console.warn(`ONNX model ${modelVersion.id} unavailable, using heuristic fallback engine:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load a version's ONNX session and calibrator once per worker.
+ * Resolves to null when its artifacts are not deployed alongside the function.
+ */
+export function loadOnnxModel(modelVersion: ModelVersion): Promise<OnnxModel | null> {
+  let promise = modelPromises.get(modelVersion.id);
+  if (!promise) {
+    promise = loadModel(modelVersion);
+    modelPromises.set(modelVersion.id, promise);
+  }
+  return promise;
+}
+
+/**
+ * Map a raw model probability through the isotonic calibrator, clipping to
+ * the fitted range like sklearn's `out_of_bounds="clip"`.
+ */
+export function calibrate(raw: number, calibrator: IsotonicCalibrator): number {
+  const xs = calibrator.x_thresholds;
+  const ys = calibrator.y_thresholds;
+
+  if (raw <= xs[0]) return ys[0];
+  if (raw >= xs[xs.length - 1]) return ys[ys.length - 1];
+
+  let hi = 1;
+  while (xs[hi] < raw) hi++;
+  const lo = hi - 1;
+  const t = (raw - xs[lo]) / (xs[hi] - xs[lo]);
+  return ys[lo] + t * (ys[hi] - ys[lo]);
+}
+
+/**
+ * Run the LightGBM model on one applicant and return the calibrated
+ * probability of default together with a baseline-ablation explanation.
+ *
+ * The explanation re-scores the applicant once per supplied feature with that
+ * feature reset to its baseline value; all rows go through a single batched
+ * inference call.
+ */
+export async function predictOnnx(
+  model: OnnxModel,
+  features: PreprocessedFeatures,
+  columns: string[],
+): Promise<{ probability: number; explanation: Explanation }> {
+  const { session, calibrator } = model;
+  const { vector, baseline, values } = features;
+  const width = vector.length;
+
+  const ablated = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => column in values);
+
+  // Row 0: applicant, row 1: baseline, then one row per ablated feature
+  const rows = 2 + ablated.length;
+  const batch = new Float32Array(rows * width);
+  batch.set(vector, 0);
+  batch.set(baseline, width);
+  ablated.forEach(({ index }, i) => {
+    const offset = (i + 2) * width;
+    batch.set(vector, offset);
+    batch[offset + index] = baseline[index];
+  });
+
+  const input = new ort.Tensor('float32', batch, [rows, width]);
+  const outputs = await session.run({ [session.inputNames[0]]: input });
+
+  // Classifier exports emit [label, probabilities]; column 1 is P(TARGET = 1)
+  const probabilities = outputs.probabilities ?? outputs[session.outputNames[1]];
+  const raw = (row: number) => Number(probabilities.data[row * 2 + 1]);
+
+  const contributions: FeatureContribution[] = ablated
+    .map(({ column }, i) => ({ feature: column, value: values[column], impact: raw(0) - raw(i + 2) }))
+    .filter(({ impact }) => impact !== 0)
+    .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+
+  return {
+    probability: calibrate(raw(0), calibrator),
+    explanation: { method: 'baseline-ablation', base_value: raw(1), output_value: raw(0), contributions },
+  };
+}
+
+/**
+ * Calibrated probabilities for many applicants in one inference call,
+ * without explanations. Used to score counterfactual candidates.
+ */
+export async function scoreOnnx(model: OnnxModel, vectors: Float32Array[]): Promise<number[]> {
+  if (vectors.length === 0) return [];
+  const { session, calibrator } = model;
+  const width = vectors[0].length;
+
+  const batch = new Float32Array(vectors.length * width);
+  vectors.forEach((vector, row) => batch.set(vector, row * width));
+
+  const input = new ort.Tensor('float32', batch, [vectors.length, width]);
+  const outputs = await session.run({ [session.inputNames[0]]: input });
+  const probabilities = outputs.probabilities ?? outputs[session.outputNames[1]];
+  return vectors.map((_, row) => calibrate(Number(probabilities.data[row * 2 + 1]), calibrator));
+}
@@ -0,0 +1,89 @@
+import { FRIENDLY_COLUMNS, isCategoricalColumn, type HomeCreditFeatures } from '../_shared/homeCredit.ts';
+import type { ModelVersion } from './models/registry.ts';
+import type { ApplicantData } from './types.ts';
+
+/**
+ * Preprocessing pipeline that turns an ApplicantData payload into a model
+ * version's feature vector. The column order, medians and label encoders are
+ * training artifacts registered with each version (see `models/registry.ts`),
+ * so data science can ship updated tables without touching this code.
+ */
+
+export interface PreprocessedFeatures {
+  vector: Float32Array;
+  /** What the model sees for an applicant it knows nothing about: medians, else missing */
+  baseline: Float32Array;
+  /** Pre-encoding value of every column supplied or derived from the friendly fields */
+  values: Record<string, number | string>;
+  /** Columns filled from the median table because the caller did not supply them */
+  imputed: string[];
+}
+
+const baselines = new Map<string, Float32Array>();
+
+function baselineVector(model: ModelVersion): Float32Array {
+  let baseline = baselines.get(model.id);
+  if (!baseline) {
+    baseline = Float32Array.from(model.featureColumns, (column) => model.medians[column] ?? NaN);
+    baselines.set(model.id, baseline);
+  }
+  return baseline;
+}
+
+/**
+ * Encode a categorical value with its label encoder. Unseen values become NaN
+ * so LightGBM treats them as missing instead of colliding with a real class.
+ */
+function encodeCategory(model: ModelVersion, column: string, value: string): number {
+  const classes = model.encoders[column];
+  const code = classes ? classes.indexOf(value) : -1;
+  return code === -1 ? NaN : code;
+}
+
+/**
+ * Map the friendly form fields onto their Home Credit columns, converting
+ * units as `FRIENDLY_COLUMNS` defines. A suppressed gender or age derives
+ * nothing, so its column is imputed like any other the caller left out.
+ */
+function deriveFromFriendlyFields(data: ApplicantData): Partial<HomeCreditFeatures> {
+  const numeric = Object.entries(FRIENDLY_COLUMNS).flatMap(([field, { column, toColumn }]) => {
+    const value = data[field as keyof typeof FRIENDLY_COLUMNS];
+    return value === undefined ? [] : [[column, toColumn(value)]];
+  });
+  return {
+    NAME_CONTRACT_TYPE: data.contract_type as HomeCreditFeatures['NAME_CONTRACT_TYPE'],
+    CODE_GENDER: data.gender as HomeCreditFeatures['CODE_GENDER'],
+    NAME_EDUCATION_TYPE: data.education as HomeCreditFeatures['NAME_EDUCATION_TYPE'],
+    ...Object.fromEntries(numeric),
+  };
+}
+
+/**
+ * Assemble the input vector in the exact order of the version's `feature_columns`.
+ * Each column is taken from, in order of preference: the Home Credit value
+ * supplied by the caller, the value derived from the friendly fields, the
+ * median table. Anything left is NaN, which LightGBM treats as missing.
+ */
+export function preprocess(data: ApplicantData, model: ModelVersion): PreprocessedFeatures {
+  const derived = deriveFromFriendlyFields(data);
+  const values: Record<string, number | string> = {};
+  const imputed: string[] = [];
+
+  const vector = Float32Array.from(model.featureColumns, (column) => {
+    const key = column as keyof HomeCreditFeatures;
+    const value = data[key] ?? derived[key];
+
+    if (value === undefined || value === null) {
+      if (column in model.medians) {
+        imputed.push(column);
+        return model.medians[column];
+      }
+      return NaN;
+    }
+
+    values[column] = value;
+    return isCategoricalColumn(column) ? encodeCategory(model, column, String(value)) : Number(value);
+  });
+
+  return { vector, baseline: baselineVector(model), values, imputed };
+}
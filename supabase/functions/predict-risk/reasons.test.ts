@@ -0,0 +1,24 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import type { BucketDefinition } from '../_shared/bucketScheme.ts';
+import { deriveReasonCodes } from './reasons.ts';
+import type { Explanation } from './types.ts';
+
+const adverse: BucketDefinition = { name: 'D', label: 'Very High Risk', max_probability: null, color: 'red', adverse: true };
+
+const explanation = (contributions: [string, number][]): Explanation => ({
+  method: 'baseline-ablation',
+  base_value: 0.08,
+  output_value: 0.3,
+  contributions: contributions.map(([feature, impact]) => ({ feature, value: 0, impact })),
+});
+
+Deno.test('gender is never given as a reason, not even under the fallback code', () => {
+  const reasons = deriveReasonCodes(adverse, explanation([['CODE_GENDER', 0.1], ['AMT_CREDIT', 0.05]]));
+  assertEquals(reasons.map((r) => r.code), ['RC01']);
+});
+
+Deno.test('features missing from the catalogue still map to the fallback code', () => {
+  const reasons = deriveReasonCodes(adverse, explanation([['FLAG_MOBIL', 0.1], ['CODE_GENDER', 0.05]]));
+  assertEquals(reasons.map((r) => r.code), ['RC99']);
+});
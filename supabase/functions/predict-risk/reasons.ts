@@ -0,0 +1,44 @@
+import catalogue from './reason_codes.json' with { type: 'json' };
+import type { BucketDefinition } from '../_shared/bucketScheme.ts';
+import type { Explanation, ReasonCode } from './types.ts';
+
+/**
+ * Adverse-action reason codes.
+ * Codes and their wording come from `reason_codes.json`, a versioned
+ * catalogue owned by compliance. Each entry lists the contribution features
+ * (heuristic rule ids or Home Credit columns) it covers. Its
+ * `excluded_features` may never be given as a reason: gender, and age
+ * wherever it is barred.
+ */
+
+export const REASON_CATALOGUE_VERSION: string = catalogue.version;
+
+const MAX_REASONS = 4;
+
+const EXCLUDED_FEATURES: ReadonlySet<string> = new Set(catalogue.excluded_features);
+
+const CODE_BY_FEATURE = new Map<string, ReasonCode>(
+  catalogue.codes.flatMap(({ code, text, features }) =>
+    features.map((feature): [string, ReasonCode] => [feature, { code, text }]),
+  ),
+);
+
+/**
+ * Derive up to four reason codes from the strongest risk-increasing
+ * contributions, for buckets the scheme marks as adverse. Excluded features
+ * are skipped rather than reported under the fallback code. Features sharing
+ * a code are reported once; other features missing from the catalogue map to
+ * its fallback code.
+ */
+export function deriveReasonCodes(bucket: BucketDefinition, explanation: Explanation): ReasonCode[] {
+  if (!bucket.adverse) return [];
+
+  const reasons: ReasonCode[] = [];
+  for (const { feature, impact } of explanation.contributions) {
+    if (impact <= 0 || EXCLUDED_FEATURES.has(feature)) continue;
+    const reason = CODE_BY_FEATURE.get(feature) ?? catalogue.fallback;
+    if (!reasons.some((r) => r.code === reason.code)) reasons.push(reason);
+    if (reasons.length === MAX_REASONS) break;
+  }
+  return reasons;
+}
@@ -0,0 +1,108 @@
+import { encryptExplanation, encryptInput, loadDataKey } from '../_shared/fieldEncryption.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import type { ApplicantData, PredictionResult } from './types.ts';
+
+// Rows per insert statement, keeping large batches under request size limits
+const INSERT_CHUNK_SIZE = 500;
+
+/** The returned score, plus the other version's score when a challenger ran in shadow */
+export interface ScoredApplicant {
+  result: PredictionResult;
+  shadow: PredictionResult | null;
+}
+
+export interface PredictionRecord extends ScoredApplicant {
+  input: ApplicantData;
+  userId: string | null;
+}
+
+/**
+ * Persist scored predictions to the `predictions` table, and shadow scores to
+ * `shadow_predictions`, returning the new prediction ids in input order. Storage problems are logged rather than thrown so
+ * that a database outage never blocks scoring; affected ids are null. A
+ * missing APPLICANT_DATA_KEY is a misconfiguration rather than an outage and
+ * fails the request, so applicant data is never stored without encryption
+ * or silently dropped.
+ */
+export async function savePredictions(records: PredictionRecord[]): Promise<(string | null)[]> {
+  if (records.length === 0) return [];
+  if (!supabaseAdmin) {
+    console.warn('Supabase credentials missing, predictions not persisted');
+    return records.map(() => null);
+  }
+
+  const key = await loadDataKey();
+  const ids: (string | null)[] = [];
+  for (let offset = 0; offset < records.length; offset += INSERT_CHUNK_SIZE) {
+    ids.push(...await insertChunk(records.slice(offset, offset + INSERT_CHUNK_SIZE), key));
+  }
+  return ids;
+}
+
+/** Sensitive fields of the input and explanation are encrypted before they leave the function */
+async function insertChunk(records: PredictionRecord[], key: CryptoKey): Promise<(string | null)[]> {
+  const rows = await Promise.all(records.map(async ({ input, result, userId }) => ({
+    userId,
+    result,
+    input: await encryptInput({ ...input }, key),
+    explanation: await encryptExplanation(result.explanation, key),
+  })));
+
+  const { data, error } = await supabaseAdmin!
+    .from('predictions')
+    .insert(rows.map(({ input, explanation, result, userId }) => ({
+      user_id: userId,
+      input,
+      input_hash: result.input_hash,
+      engine: result.engine,
+      engine_version: result.engine_version,
+      probability: result.probability,
+      bucket: result.bucket,
+      bucket_scheme_id: result.bucket_scheme_id,
+      model_version: result.model_version,
+      model_role: result.model_role,
+      reason_codes: result.reason_codes,
+      explanation,
+      imputed_fields: result.imputed_fields,
+      suppressed_attributes: result.suppressed_attributes,
+      pricing: result.pricing,
+      decision: result.decision.outcome,
+      recommendation: result.decision.recommendation,
+      policy_version: result.decision.policy_version,
+      rules_fired: result.decision.rules_fired,
+    })))
+    .select('id');
+
+  if (error) {
+    console.error('Failed to persist predictions:', error);
+    return records.map(() => null);
+  }
+
+  const ids = data.map((row) => row.id);
+  await insertShadows(records, ids);
+  return ids;
+}
+
+async function insertShadows(records: PredictionRecord[], ids: string[]): Promise<void> {
+  const shadows = records.flatMap(({ shadow }, i) =>
+    shadow
+      ? [{
+          prediction_id: ids[i],
+          model_version: shadow.model_version,
+          model_role: shadow.model_role,
+          engine: shadow.engine,
+          engine_version: shadow.engine_version,
+          probability: shadow.probability,
+          bucket: shadow.bucket,
+          bucket_scheme_id: shadow.bucket_scheme_id,
+          reason_codes: shadow.reason_codes,
+        }]
+      : [],
+  );
+  if (shadows.length === 0) return;
+
+  const { error } = await supabaseAdmin!.from('shadow_predictions').insert(shadows);
+  if (error) {
+    console.error('Failed to persist shadow predictions:', error);
+  }
+}
@@ -0,0 +1,92 @@
+import type { ApplicantData, FieldIssue, ProtectedAttribute } from '../_shared/applicantSchema.ts';
+import type { DecisionResult } from '../_shared/decisionPolicy.ts';
+import type { Explanation, FeatureContribution } from '../_shared/explanation.ts';
+import type { ModelRole } from '../_shared/modelRouting.ts';
+import type { Pricing } from '../_shared/pricing.ts';
+
+export type { ApplicantData, Explanation, FeatureContribution };
+
+/**
+ * Score one applicant (`data`) or a whole portfolio (`records`). `scenario`
+ * marks a what-if re-score of an applicant, which is not stored; its
+ * `model_version` pins it to the version that scored the baseline. `suppress`
+ * scores without those attributes, in addition to any the applicant's
+ * product is configured without.
+ */
+export type PredictionRequest =
+  | { data: ApplicantData; scenario?: boolean; model_version?: string; suppress?: ProtectedAttribute[] }
+  | { records: ApplicantData[]; suppress?: ProtectedAttribute[] };
+
+/**
+ * Identifies which scoring engine produced a probability.
+ * - `lightgbm-onnx`: the trained LightGBM model plus isotonic calibrator
+ * - `heuristic-fallback`: hand-written additive rules, used only when the
+ *   ONNX artifacts cannot be loaded
+ */
+export type EngineName = 'lightgbm-onnx' | 'heuristic-fallback';
+
+export interface ReasonCode {
+  code: string;
+  text: string;
+}
+
+export interface PredictionResult {
+  probability: number;
+  bucket: string;
+  /** Scheme the bucket was assigned with: "default" or a stored scheme's id */
+  bucket_scheme_id: string;
+  /** Registered model version that produced the score, and its routing role */
+  model_version: string;
+  model_role: ModelRole;
+  engine: EngineName;
+  /** Model digest for `lightgbm-onnx`, rule-set version for `heuristic-fallback` */
+  engine_version: string;
+  /** SHA-256 of the canonical JSON of the applicant data that was scored */
+  input_hash: string;
+  /** Home Credit columns filled from the training medians */
+  imputed_fields: string[];
+  /** Protected attributes the applicant was scored without */
+  suppressed_attributes: ProtectedAttribute[];
+  explanation: Explanation;
+  /** Principal reasons for adverse buckets, strongest first; empty otherwise */
+  reason_codes: ReasonCode[];
+  reason_catalogue_version: string;
+  /** Expected loss and suggested rate under the pricing configuration */
+  pricing: Pricing;
+  /** Outcome under the active decision policy, with the rules that fired */
+  decision: DecisionResult;
+}
+
+/** One actionable input moved by a counterfactual suggestion */
+export interface CounterfactualChange {
+  field: 'credit_amount' | 'annuity' | 'AMT_GOODS_PRICE';
+  from: number;
+  to: number;
+}
+
+export interface Counterfactual {
+  changes: CounterfactualChange[];
+  /** Score and bucket of the applicant with the changes applied */
+  probability: number;
+  bucket: string;
+}
+
+/**
+ * Smallest changes to the loan terms that move an adverse applicant into
+ * `target_bucket`, the riskiest non-adverse bucket of the scheme.
+ */
+export interface PathToApproval {
+  target_bucket: string;
+  /** Smallest change first; empty when nothing within range reaches the target */
+  suggestions: Counterfactual[];
+}
+
+export type BatchRowResult =
+  | ({ index: number; prediction_id: string | null } & Omit<PredictionResult, 'explanation'>)
+  | { index: number; error: string; fields?: FieldIssue[] };
+
+export interface BatchPredictionResult {
+  /** One entry per input record, in input order */
+  results: BatchRowResult[];
+  summary: { total: number; scored: number; failed: number };
+}
@@ -0,0 +1,17 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { configHandler } from '../_shared/configHandler.ts';
+import { validatePricingConfig } from '../_shared/pricing.ts';
+import { pricingStore } from '../_shared/pricingStore.ts';
+
+/**
+ * Loss-given-default table and pricing grid used by predict-risk.
+ *   GET – the current configuration (any signed-in role)
+ *   PUT – replace it with `{ lgd, grid }` (admin)
+ */
+serve(configHandler({
+  functionName: 'pricing-config',
+  store: pricingStore,
+  validate: validatePricingConfig,
+  readPermission: 'score',
+}));
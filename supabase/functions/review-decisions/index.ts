@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { recordAudit } from '../_shared/audit.ts';
+import { authenticate, requirePermission } from '../_shared/auth.ts';
+import { HttpError } from '../_shared/errors.ts';
+import { corsHeaders, errorResponse, jsonResponse, readJsonObject } from '../_shared/http.ts';
+import { validateReview } from '../_shared/review.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+
+/**
+ * Record an underwriter's decision on a referred application.
+ *   POST – `{ prediction_id, decision, comment }` (underwriter, admin)
+ * The reviewer and time are taken from the session, and the model's
+ * recommendation is copied from the prediction so overrides can be reported.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    const auth = await authenticate(req);
+    requirePermission(auth, 'review');
+    if (!supabaseAdmin) {
+      throw new Error('Supabase credentials missing, reviews unavailable');
+    }
+
+    const validation = validateReview(await readJsonObject(req));
+    if (!validation.success) {
+      throw new HttpError(422, 'Invalid review', validation.issues);
+    }
+    const { prediction_id, decision, comment } = validation.data;
+
+    const { data: prediction, error: lookupError } = await supabaseAdmin
+      .from('predictions')
+      .select('decision, recommendation, bucket')
+      .eq('id', prediction_id)
+      .maybeSingle();
+    if (lookupError) throw lookupError;
+    if (!prediction) throw new HttpError(404, 'Prediction not found');
+    if (prediction.decision !== 'refer') {
+      throw new HttpError(409, 'Only referred applications can be reviewed');
+    }
+
+    const { data: review, error } = await supabaseAdmin
+      .from('reviews')
+      .insert({
+        prediction_id,
+        decision,
+        comment,
+        recommendation: prediction.recommendation,
+        bucket: prediction.bucket,
+        reviewer_id: auth.userId,
+        reviewer_email: auth.email,
+      })
+      .select()
+      .single();
+    if (error) {
+      // One review per prediction
+      if (error.code === '23505') throw new HttpError(409, 'This application has already been reviewed');
+      throw error;
+    }
+
+    console.log('Review recorded:', { prediction_id, decision, override: review.is_override, by: auth.userId });
+    await recordAudit(auth, req, {
+      action: 'review.decide',
+      resource: 'predictions',
+      resource_id: prediction_id,
+      details: { decision, recommendation: review.recommendation, override: review.is_override },
+    });
+    return jsonResponse(review, 201);
+  } catch (error) {
+    return errorResponse(error, 'review-decisions', 'Failed to record review');
+  }
+});
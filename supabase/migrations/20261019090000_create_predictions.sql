@@ -0,0 +1,30 @@
+-- Every score returned by the predict-risk edge function
+create table public.predictions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid references auth.users (id) on delete set null,
+  input jsonb not null,
+  input_hash text not null,
+  engine text not null,
+  engine_version text not null,
+  probability double precision not null,
+  bucket text not null,
+  reason_codes jsonb not null default '[]'::jsonb,
+  explanation jsonb,
+  imputed_fields text[] not null default '{}'
+);
+
+create index predictions_created_at_idx on public.predictions (created_at desc);
+create index predictions_bucket_created_at_idx on public.predictions (bucket, created_at desc);
+create index predictions_input_hash_idx on public.predictions (input_hash);
+
+alter table public.predictions enable row level security;
+
+-- Rows are written only by the edge function with the service role, which
+-- bypasses RLS. The app has no sign-in yet, so history is readable by anyone
+-- holding the publishable key.
+create policy "Predictions are readable by app clients"
+  on public.predictions
+  for select
+  to anon, authenticated
+  using (true);
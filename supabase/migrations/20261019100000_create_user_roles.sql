@@ -0,0 +1,74 @@
+-- Roles for the risk predictor. Permissions per role are defined in
+-- supabase/functions/_shared/roles.ts and enforced by the edge functions and UI.
+create type public.app_role as enum ('analyst', 'underwriter', 'admin');
+
+-- One row per account, so admins can find users by email
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  created_at timestamptz not null default now()
+);
+
+create table public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.app_role not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, role)
+);
+
+-- Security definer so policies can check roles without recursing into user_roles RLS
+create function public.has_role(_user_id uuid, _role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles where user_id = _user_id and role = _role
+  )
+$$;
+
+create function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email) values (new.id, new.email);
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+alter table public.profiles enable row level security;
+alter table public.user_roles enable row level security;
+
+create policy "Users can read their own profile"
+  on public.profiles for select to authenticated
+  using (auth.uid() = id);
+
+create policy "Admins can read all profiles"
+  on public.profiles for select to authenticated
+  using (public.has_role(auth.uid(), 'admin'));
+
+create policy "Users can read their own roles"
+  on public.user_roles for select to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Admins can manage roles"
+  on public.user_roles for all to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- Prediction history is now limited to signed-in users
+drop policy "Predictions are readable by app clients" on public.predictions;
+
+create policy "Predictions are readable by signed-in users"
+  on public.predictions for select to authenticated
+  using (true);
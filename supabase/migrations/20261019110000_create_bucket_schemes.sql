@@ -0,0 +1,44 @@
+-- Admin-defined risk-bucket schemes. When none is active, predict-risk uses
+-- the model cutoffs from artifacts_meta.json. Buckets are validated by
+-- supabase/functions/_shared/bucketScheme.ts before they are stored.
+create table public.bucket_schemes (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by uuid references auth.users (id) on delete set null,
+  name text not null,
+  buckets jsonb not null,
+  is_active boolean not null default false
+);
+
+-- At most one scheme is active at a time
+create unique index bucket_schemes_active_idx on public.bucket_schemes (is_active) where is_active;
+
+alter table public.bucket_schemes enable row level security;
+
+-- Writes go through the bucket-schemes edge function with the service role
+create policy "Bucket schemes are readable by signed-in users"
+  on public.bucket_schemes for select to authenticated
+  using (true);
+
+-- Switch the active scheme in one statement; null reverts to the model cutoffs
+create function public.activate_bucket_scheme(_id uuid)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if _id is not null and not exists (select 1 from public.bucket_schemes where id = _id) then
+    raise exception 'bucket scheme % not found', _id using errcode = 'no_data_found';
+  end if;
+
+  -- Deactivate first: the unique index is checked row by row
+  update public.bucket_schemes set is_active = false where is_active;
+  update public.bucket_schemes set is_active = true where id = _id;
+end;
+$$;
+
+revoke execute on function public.activate_bucket_scheme(uuid) from public, anon, authenticated;
+
+-- Which scheme assigned each stored bucket
+alter table public.predictions
+  add column bucket_scheme_id text not null default 'default';
@@ -0,0 +1,52 @@
+-- Champion/challenger routing between the model versions registered in
+-- supabase/functions/predict-risk/models/registry.ts. A single row; without
+-- it predict-risk serves the registry's default champion alone.
+create table public.model_routing (
+  id boolean primary key default true check (id),
+  champion text not null,
+  challenger text,
+  challenger_traffic double precision not null default 0
+    check (challenger_traffic between 0 and 100),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null,
+  check (challenger is distinct from champion)
+);
+
+alter table public.model_routing enable row level security;
+
+-- Writes go through the model-registry edge function with the service role
+create policy "Model routing is readable by signed-in users"
+  on public.model_routing for select to authenticated
+  using (true);
+
+-- Which version produced each returned score
+alter table public.predictions
+  add column model_version text not null default 'lgbm-v1',
+  add column model_role text not null default 'champion'
+    check (model_role in ('champion', 'challenger'));
+
+create index predictions_model_version_created_at_idx on public.predictions (model_version, created_at desc);
+
+-- Scores computed alongside a prediction by the version that was not served
+create table public.shadow_predictions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  prediction_id uuid not null references public.predictions (id) on delete cascade,
+  model_version text not null,
+  model_role text not null check (model_role in ('champion', 'challenger')),
+  engine text not null,
+  engine_version text not null,
+  probability double precision not null,
+  bucket text not null,
+  bucket_scheme_id text not null,
+  reason_codes jsonb not null default '[]'::jsonb
+);
+
+create index shadow_predictions_prediction_id_idx on public.shadow_predictions (prediction_id);
+create index shadow_predictions_model_version_created_at_idx on public.shadow_predictions (model_version, created_at desc);
+
+alter table public.shadow_predictions enable row level security;
+
+create policy "Shadow predictions are readable by signed-in users"
+  on public.shadow_predictions for select to authenticated
+  using (true);
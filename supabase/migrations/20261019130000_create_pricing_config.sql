@@ -0,0 +1,21 @@
+-- Loss given default per contract type and the per-bucket pricing grid used
+-- by predict-risk (supabase/functions/_shared/pricing.ts). A single row;
+-- without it the built-in defaults apply.
+create table public.pricing_config (
+  id boolean primary key default true check (id),
+  lgd jsonb not null,
+  grid jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+alter table public.pricing_config enable row level security;
+
+-- Writes go through the pricing-config edge function with the service role
+create policy "Pricing configuration is readable by signed-in users"
+  on public.pricing_config for select to authenticated
+  using (true);
+
+-- Expected loss and suggested rate quoted with each prediction
+alter table public.predictions
+  add column pricing jsonb;
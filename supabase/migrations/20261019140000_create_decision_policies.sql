@@ -0,0 +1,48 @@
+-- Versioned decision policies: knock-out rules, bucket-to-decision mapping and
+-- refer rules, validated by supabase/functions/_shared/decisionPolicy.ts.
+-- When none is active, predict-risk uses the built-in policy (version 0).
+create table public.decision_policies (
+  version integer generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  created_by uuid references auth.users (id) on delete set null,
+  note text not null,
+  policy jsonb not null,
+  is_active boolean not null default false
+);
+
+-- At most one policy is active at a time
+create unique index decision_policies_active_idx on public.decision_policies (is_active) where is_active;
+
+alter table public.decision_policies enable row level security;
+
+-- Writes go through the decision-policies edge function with the service role
+create policy "Decision policies are readable by signed-in users"
+  on public.decision_policies for select to authenticated
+  using (true);
+
+-- Switch the active policy in one statement; null reverts to the built-in policy
+create function public.activate_decision_policy(_version integer)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if _version is not null and not exists (select 1 from public.decision_policies where version = _version) then
+    raise exception 'decision policy % not found', _version using errcode = 'no_data_found';
+  end if;
+
+  -- Deactivate first: the unique index is checked row by row
+  update public.decision_policies set is_active = false where is_active;
+  update public.decision_policies set is_active = true where version = _version;
+end;
+$$;
+
+revoke execute on function public.activate_decision_policy(integer) from public, anon, authenticated;
+
+-- The decision made with each prediction and the policy version that made it
+alter table public.predictions
+  add column decision text check (decision in ('approve', 'refer', 'decline')),
+  add column policy_version integer,
+  add column rules_fired jsonb not null default '[]'::jsonb;
+
+create index predictions_decision_created_at_idx on public.predictions (decision, created_at desc);
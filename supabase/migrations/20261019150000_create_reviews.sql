@@ -0,0 +1,44 @@
+-- Manual review of referred applications. Decisions are written by the
+-- review-decisions edge function with the service role.
+
+-- What the score alone suggested, so reviews can be compared against it
+alter table public.predictions
+  add column recommendation text check (recommendation in ('approve', 'decline'));
+
+create table public.reviews (
+  id uuid primary key default gen_random_uuid(),
+  prediction_id uuid not null unique references public.predictions (id) on delete cascade,
+  decision text not null check (decision in ('approve', 'decline')),
+  comment text not null check (length(trim(comment)) > 0),
+  reviewer_id uuid references auth.users (id) on delete set null,
+  -- Kept so the queue and override reports can name reviewers without profile access
+  reviewer_email text,
+  reviewed_at timestamptz not null default now(),
+  -- Copied from the prediction at review time for override reporting
+  recommendation text check (recommendation in ('approve', 'decline')),
+  bucket text not null,
+  is_override boolean generated always as (decision is distinct from recommendation) stored
+);
+
+create index reviews_reviewed_at_idx on public.reviews (reviewed_at desc);
+create index reviews_reviewer_id_idx on public.reviews (reviewer_id);
+
+alter table public.reviews enable row level security;
+
+create policy "Reviews are readable by signed-in users"
+  on public.reviews for select to authenticated
+  using (true);
+
+-- Override rates per underwriter and per bucket, one row per group
+create view public.review_override_rates as
+select
+  case when grouping(r.reviewer_id) = 0 then 'reviewer' else 'bucket' end as dimension,
+  case when grouping(r.reviewer_id) = 0 then coalesce(r.reviewer_email, 'unknown') else r.bucket end as key,
+  count(*)::integer as reviews,
+  count(*) filter (where r.is_override)::integer as overrides
+from public.reviews r
+where r.recommendation is not null
+group by grouping sets ((r.reviewer_id, r.reviewer_email), (r.bucket));
+
+revoke all on public.review_override_rates from anon;
+grant select on public.review_override_rates to authenticated;
@@ -0,0 +1,84 @@
+-- Append-only trail of scoring calls and configuration changes for
+-- compliance. Edge functions write it with the service role
+-- (supabase/functions/_shared/audit.ts); role grants and revocations, which
+-- admins make directly, are recorded by a trigger on user_roles.
+create table public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  -- No foreign key: entries outlive the accounts they name
+  actor_id uuid,
+  actor_email text,
+  -- e.g. prediction.score, pricing.update, role.grant
+  action text not null,
+  resource text not null,
+  resource_id text,
+  -- Caller's IP address, user agent and x-client-info header
+  client jsonb not null default '{}',
+  -- What was asked and returned; scoring entries carry the input hash, never the raw input
+  details jsonb not null default '{}',
+  -- Configuration changes only: [{ path, before, after }]
+  changes jsonb
+);
+
+create index audit_log_occurred_at_idx on public.audit_log (occurred_at desc);
+create index audit_log_action_idx on public.audit_log (action, occurred_at desc);
+create index audit_log_actor_id_idx on public.audit_log (actor_id, occurred_at desc);
+create index audit_log_resource_id_idx on public.audit_log (resource_id);
+
+-- Entries can be added but never changed or removed, whoever is connected
+create function public.reject_audit_log_mutation()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only' using errcode = 'insufficient_privilege';
+end;
+$$;
+
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.reject_audit_log_mutation();
+
+create trigger audit_log_no_truncate
+  before truncate on public.audit_log
+  for each statement execute function public.reject_audit_log_mutation();
+
+revoke update, delete, truncate on public.audit_log from anon, authenticated, service_role;
+
+alter table public.audit_log enable row level security;
+
+create policy "Admins can read the audit log"
+  on public.audit_log for select to authenticated
+  using (public.has_role(auth.uid(), 'admin'));
+
+-- Role changes are made from the admin page under the admin's own session
+create function public.audit_role_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _row public.user_roles := coalesce(new, old);
+begin
+  insert into public.audit_log (actor_id, actor_email, action, resource, resource_id, details, changes)
+  values (
+    auth.uid(),
+    (select email from public.profiles where id = auth.uid()),
+    case when tg_op = 'INSERT' then 'role.grant' else 'role.revoke' end,
+    'user_roles',
+    _row.user_id::text,
+    jsonb_build_object('role', _row.role),
+    jsonb_build_array(jsonb_build_object(
+      'path', 'roles.' || _row.role,
+      'before', tg_op = 'DELETE',
+      'after', tg_op = 'INSERT'
+    ))
+  );
+  return null;
+end;
+$$;
+
+create trigger user_roles_audit
+  after insert or delete on public.user_roles
+  for each row execute function public.audit_role_change();
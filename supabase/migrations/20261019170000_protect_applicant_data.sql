@@ -0,0 +1,64 @@
+-- Protection of stored applicant data. Sensitive input fields and the
+-- explanation values derived from them are encrypted by the edge functions
+-- before insert (supabase/functions/_shared/fieldEncryption.ts); this
+-- migration adds the retention period and the purge that enforces it.
+
+-- A single row; without it applicant data is kept for 730 days
+create table public.data_retention (
+  id boolean primary key default true check (id),
+  retention_days integer not null check (retention_days between 30 and 3650),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+alter table public.data_retention enable row level security;
+
+-- Writes go through the data-retention edge function with the service role
+create policy "Retention period is readable by signed-in users"
+  on public.data_retention for select to authenticated
+  using (true);
+
+alter table public.predictions
+  add column purged_at timestamptz;
+
+create index predictions_unpurged_created_at_idx
+  on public.predictions (created_at)
+  where purged_at is null;
+
+-- Clear the input and explanation of every prediction past the retention
+-- period. Scores, buckets, decisions and the input hash are kept, so
+-- monitoring and the audit trail still line up. Each run is audited.
+create function public.purge_applicant_data(_actor_id uuid default null, _actor_email text default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _days integer := coalesce((select retention_days from public.data_retention), 730);
+  _purged integer;
+begin
+  update public.predictions
+  set input = '{}'::jsonb, explanation = null, purged_at = now()
+  where purged_at is null
+    and created_at < now() - make_interval(days => _days);
+  get diagnostics _purged = row_count;
+
+  insert into public.audit_log (actor_id, actor_email, action, resource, details)
+  values (
+    _actor_id,
+    coalesce(_actor_email, case when _actor_id is null then 'scheduled purge' end),
+    'retention.purge',
+    'predictions',
+    jsonb_build_object('retention_days', _days, 'purged', _purged)
+  );
+  return _purged;
+end;
+$$;
+
+revoke execute on function public.purge_applicant_data(uuid, text) from public, anon, authenticated;
+
+-- Nightly at 02:30 UTC
+create extension if not exists pg_cron;
+
+select cron.schedule('purge-applicant-data', '30 2 * * *', 'select public.purge_applicant_data()');
@@ -0,0 +1,18 @@
+-- Alert thresholds for the fairness report (supabase/functions/_shared/fairness.ts).
+-- A single row; without it the built-in defaults apply.
+create table public.fairness_thresholds (
+  id boolean primary key default true check (id),
+  min_disparate_impact double precision not null check (min_disparate_impact > 0 and min_disparate_impact <= 1),
+  max_mean_pd_gap double precision not null check (max_mean_pd_gap > 0 and max_mean_pd_gap <= 1),
+  min_group_size integer not null check (min_group_size >= 1),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+alter table public.fairness_thresholds enable row level security;
+
+-- Writes go through the fairness-report edge function with the service role
+create policy "Fairness thresholds are readable by signed-in users"
+  on public.fairness_thresholds for select to authenticated
+  using (true);
+
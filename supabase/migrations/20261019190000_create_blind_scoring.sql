@@ -0,0 +1,20 @@
+-- Products scored without protected attributes
+-- (supabase/functions/_shared/blindScoring.ts). A single row; without it
+-- every product is scored with all attributes unless a request suppresses them.
+create table public.blind_scoring (
+  id boolean primary key default true check (id),
+  products jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id) on delete set null
+);
+
+alter table public.blind_scoring enable row level security;
+
+-- Writes go through the blind-scoring edge function with the service role
+create policy "Blind-scoring configuration is readable by signed-in users"
+  on public.blind_scoring for select to authenticated
+  using (true);
+
+-- Attributes each prediction was scored without; they are not stored either
+alter table public.predictions
+  add column suppressed_attributes text[] not null default '{}';
@@ -0,0 +1,59 @@
+-- Anyone can create an account, and new accounts have no role, so being
+-- signed in is not enough to read applicant predictions. Access now follows
+-- the permissions in supabase/functions/_shared/roles.ts.
+
+drop policy "Predictions are readable by signed-in users" on public.predictions;
+
+create policy "Predictions are readable by staff"
+  on public.predictions for select to authenticated
+  using (
+    public.has_role(auth.uid(), 'analyst')
+    or public.has_role(auth.uid(), 'underwriter')
+    or public.has_role(auth.uid(), 'admin')
+  );
+
+drop policy "Shadow predictions are readable by signed-in users" on public.shadow_predictions;
+
+create policy "Shadow predictions are readable by staff"
+  on public.shadow_predictions for select to authenticated
+  using (
+    public.has_role(auth.uid(), 'analyst')
+    or public.has_role(auth.uid(), 'underwriter')
+    or public.has_role(auth.uid(), 'admin')
+  );
+
+drop policy "Reviews are readable by signed-in users" on public.reviews;
+
+create policy "Reviews are readable by staff"
+  on public.reviews for select to authenticated
+  using (
+    public.has_role(auth.uid(), 'analyst')
+    or public.has_role(auth.uid(), 'underwriter')
+    or public.has_role(auth.uid(), 'admin')
+  );
+
+-- A view runs with its owner's rights and bypasses the policy above, so the
+-- override rates are served by a function that checks the caller's role
+-- (the `review` permission) instead.
+drop view public.review_override_rates;
+
+create function public.review_override_rates()
+returns table (dimension text, key text, reviews integer, overrides integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    case when grouping(r.reviewer_id) = 0 then 'reviewer' else 'bucket' end,
+    case when grouping(r.reviewer_id) = 0 then coalesce(r.reviewer_email, 'unknown') else r.bucket end,
+    count(*)::integer,
+    count(*) filter (where r.is_override)::integer
+  from public.reviews r
+  where r.recommendation is not null
+    and (public.has_role(auth.uid(), 'underwriter') or public.has_role(auth.uid(), 'admin'))
+  group by grouping sets ((r.reviewer_id, r.reviewer_email), (r.bucket))
+$$;
+
+revoke execute on function public.review_override_rates() from public, anon;
+grant execute on function public.review_override_rates() to authenticated;
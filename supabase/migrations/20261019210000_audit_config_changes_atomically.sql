@@ -0,0 +1,106 @@
+-- Configuration changes and their audit entries are written in one
+-- transaction, so a change is either saved and audited or not made at all.
+-- The edge functions build the entry (supabase/functions/_shared/audit.ts)
+-- and pass it alongside the change.
+
+-- Append an entry shaped like an audit_log row; id and occurred_at are filled in here
+create function public.append_audit_entry(_entry jsonb)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.audit_log (actor_id, actor_email, action, resource, resource_id, client, details, changes)
+  select actor_id, actor_email, action, resource, resource_id, client, details, changes
+  from jsonb_populate_record(null::public.audit_log, _entry);
+$$;
+
+revoke execute on function public.append_audit_entry(jsonb) from public, anon, authenticated;
+
+-- Save a configuration row and audit it. The single-row tables are upserted;
+-- schemes and policies get a new row, whose id or version becomes the
+-- entry's resource_id. Only the columns present in _row are written, so
+-- generated ids and timestamps keep their defaults. Returns the stored row.
+create function public.write_config(_table text, _row jsonb, _audit jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  _singleton boolean;
+  _columns text;
+  _updates text;
+  _stored jsonb;
+begin
+  _singleton := case
+    when _table in ('model_routing', 'pricing_config', 'blind_scoring', 'data_retention', 'fairness_thresholds') then true
+    when _table in ('bucket_schemes', 'decision_policies') then false
+  end;
+  if _singleton is null then
+    raise exception '% is not a configuration table', _table using errcode = 'invalid_parameter_value';
+  end if;
+
+  select string_agg(format('%I', key), ', '), string_agg(format('%I = excluded.%I', key, key), ', ')
+  into _columns, _updates
+  from jsonb_object_keys(_row) as key;
+
+  execute format(
+    'insert into public.%1$I (%2$s) select %2$s from jsonb_populate_record(null::public.%1$I, $1) %3$s returning to_jsonb(%1$I.*)',
+    _table,
+    _columns,
+    case when _singleton then format('on conflict (id) do update set %s', _updates) else '' end
+  )
+  into _stored
+  using _row;
+
+  if not _singleton then
+    _audit := _audit || jsonb_build_object('resource_id', coalesce(_stored ->> 'version', _stored ->> 'id'));
+  end if;
+  perform public.append_audit_entry(_audit);
+  return _stored;
+end;
+$$;
+
+revoke execute on function public.write_config(text, jsonb, jsonb) from public, anon, authenticated;
+
+-- Activation takes the entry for the switch as well
+drop function public.activate_bucket_scheme(uuid);
+
+create function public.activate_bucket_scheme(_id uuid, _audit jsonb)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if _id is not null and not exists (select 1 from public.bucket_schemes where id = _id) then
+    raise exception 'bucket scheme % not found', _id using errcode = 'no_data_found';
+  end if;
+
+  -- Deactivate first: the unique index is checked row by row
+  update public.bucket_schemes set is_active = false where is_active;
+  update public.bucket_schemes set is_active = true where id = _id;
+  perform public.append_audit_entry(_audit);
+end;
+$$;
+
+revoke execute on function public.activate_bucket_scheme(uuid, jsonb) from public, anon, authenticated;
+
+drop function public.activate_decision_policy(integer);
+
+create function public.activate_decision_policy(_version integer, _audit jsonb)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if _version is not null and not exists (select 1 from public.decision_policies where version = _version) then
+    raise exception 'decision policy % not found', _version using errcode = 'no_data_found';
+  end if;
+
+  -- Deactivate first: the unique index is checked row by row
+  update public.decision_policies set is_active = false where is_active;
+  update public.decision_policies set is_active = true where version = _version;
+  perform public.append_audit_entry(_audit);
+end;
+$$;
+
+revoke execute on function public.activate_decision_policy(integer, jsonb) from public, anon, authenticated;